@@ -1,3 +1,9 @@
+import {
+  ConversionAbortedError,
+  DegradedConversionError,
+} from "./errors.js";
+import type { ImageHandler } from "./images.js";
+
 export interface StreamInfo {
   filename?: string;
   localPath?: string;
@@ -10,6 +16,209 @@ export interface StreamInfo {
 export interface ConversionResult {
   markdown: string;
   title?: string;
+  /** Article author, when main-content extraction found one */
+  byline?: string;
+  /** Article publication date as found in the page, when available */
+  published?: string;
+  /** Facts about the source document; which fields are set depends on the format */
+  metadata?: DocumentMetadata;
+  /** Where each page, slide, sheet or feed item ended up in `markdown` */
+  sections?: Section[];
+  /** Parts of the input that could not be converted, in the order found */
+  warnings?: ConversionWarning[];
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  description?: string;
+  keywords?: string[];
+  /** BCP 47 language tag, e.g. "en-US" */
+  language?: string;
+  /** Creation date, ISO 8601 */
+  created?: string;
+  /** Last modification date, ISO 8601 */
+  modified?: string;
+  /** PDF */
+  pageCount?: number;
+  /** PPTX */
+  slideCount?: number;
+  /** XLSX, in workbook order */
+  sheetNames?: string[];
+  /** RSS/Atom */
+  itemCount?: number;
+  /** RSS/Atom: the feed's website */
+  link?: string;
+  /** CSV: data rows, excluding the header */
+  rowCount?: number;
+  /** CSV */
+  columnCount?: number;
+  /** Text formats: the charset the input was decoded with */
+  charset?: string;
+  /** Images: EXIF fields by label, e.g. { "Date Created": "2024-03-15T09:30:00.000Z" } */
+  exif?: Record<string, string>;
+}
+
+/** A source unit and the `[start, end)` character range it produced */
+export interface Section {
+  location: SourceLocation;
+  start: number;
+  end: number;
+}
+
+/** Where in the source document a piece of Markdown came from */
+export interface SourceLocation {
+  unit: "document" | "page" | "slide" | "sheet" | "item";
+  /** 1-based position of the unit in the source */
+  index?: number;
+  /** Human-readable name, e.g. the sheet name or feed item title */
+  name?: string;
+}
+
+/** Something that made the output less complete than the input */
+export interface ConversionWarning {
+  code: WarningCode;
+  message: string;
+  location?: SourceLocation;
+  /** The underlying error, when there was one */
+  cause?: unknown;
+}
+
+export type WarningCode =
+  /** file-type could not sniff the input; conversion used the hints only */
+  | "type-detection-failed"
+  /** A converter failed and a lower-priority one produced the result */
+  | "converter-failed"
+  /** Document properties (title, author, dates) could not be read */
+  | "metadata-unreadable"
+  /** PDF bookmarks could not be read, so headings rely on font sizes */
+  | "outline-unreadable"
+  /** PDF link annotations could not be read, so links are plain text */
+  | "link-annotations-failed"
+  /** A scanned PDF page could not be rendered for OCR */
+  | "page-render-failed"
+  /** OCR threw, e.g. because tesseract.js could not load */
+  | "ocr-failed"
+  /** OCR ran but recognized no text */
+  | "ocr-empty"
+  /** The image has an EXIF block that could not be parsed */
+  | "exif-unreadable"
+  /** A part the package refers to is missing, e.g. a PPTX slide */
+  | "missing-part"
+  /** An embedded PDF image could not be decoded for export */
+  | "image-unreadable"
+  /** The hinted charset is unknown and UTF-8 was used instead */
+  | "charset-fallback"
+  /** Part of a DOCX was dropped or simplified, e.g. an unrecognised style */
+  | "unsupported-content";
+
+/** How far a conversion has got through the document's units */
+export interface ConversionProgress {
+  unit: "page" | "slide" | "sheet" | "item";
+  /** Units converted so far */
+  current: number;
+  /** Units in the document; unknown while a stream is still being read */
+  total?: number;
+}
+
+/**
+ * Caps for untrusted input. A conversion that would go over one fails
+ * with `ResourceLimitError`; unset limits are not enforced.
+ */
+export interface ResourceLimits {
+  /** Size of the input in bytes, checked before it is read where possible */
+  maxInputBytes?: number;
+  /** DOCX/PPTX/XLSX: total bytes the archive entries inflate to, counted while inflating */
+  maxUncompressedBytes?: number;
+  /** DOCX/PPTX/XLSX: files in the archive */
+  maxArchiveEntries?: number;
+  /** PDF pages */
+  maxPages?: number;
+  /** PPTX slides */
+  maxSlides?: number;
+  /** XLSX sheets */
+  maxSheets?: number;
+  /** Rows of a CSV file or of each XLSX sheet */
+  maxRows?: number;
+  /** Characters of Markdown produced */
+  maxOutputLength?: number;
+}
+
+export interface ConversionChunk {
+  markdown: string;
+  location: SourceLocation;
+}
+
+/**
+ * Join chunks with blank lines, as `convert` does, recording the range
+ * each chunk occupies in the result. Empty chunks are dropped.
+ */
+export function joinChunks(chunks: ConversionChunk[]): {
+  markdown: string;
+  sections: Section[];
+} {
+  let markdown = "";
+  const sections: Section[] = [];
+  for (const chunk of chunks) {
+    const text = chunk.markdown.trim();
+    if (!text) continue;
+    if (markdown) markdown += "\n\n";
+    sections.push({
+      location: chunk.location,
+      start: markdown.length,
+      end: markdown.length + text.length,
+    });
+    markdown += text;
+  }
+  return { markdown, sections };
+}
+
+/** Sections for a converter that treats its input as one unit */
+export function documentSections(markdown: string): Section[] {
+  return markdown
+    ? [{ location: { unit: "document" }, start: 0, end: markdown.length }]
+    : [];
+}
+
+/**
+ * Collects a conversion's warnings for `ConversionResult.warnings` and
+ * forwards each one to `ConvertOptions.onWarning` as it is reported.
+ * A cause's message is appended to the warning's. In strict mode the
+ * warning is thrown as a `DegradedConversionError` instead.
+ */
+export class WarningCollector {
+  readonly warnings: ConversionWarning[] = [];
+
+  constructor(private readonly options?: ConvertOptions) {}
+
+  warn(
+    code: WarningCode,
+    message: string,
+    details: { location?: SourceLocation; cause?: unknown } = {},
+  ): void {
+    const warning: ConversionWarning = { code, message };
+    if (details.location) warning.location = details.location;
+    if (details.cause !== undefined) {
+      const cause = details.cause;
+      warning.message += `: ${cause instanceof Error ? cause.message : String(cause)}`;
+      warning.cause = cause;
+    }
+    if (this.options?.strict) throw new DegradedConversionError(warning);
+    this.warnings.push(warning);
+    this.options?.onWarning?.(warning);
+  }
+}
+
+/**
+ * Throw `ConversionAbortedError` if the signal has fired. Converters call
+ * this between units, passing how many they have converted so far.
+ */
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  progress?: ConversionProgress,
+): void {
+  if (signal?.aborted) throw new ConversionAbortedError(signal.reason, progress);
 }
 
 export interface ConvertOptions {
@@ -17,8 +226,51 @@ export interface ConvertOptions {
   url?: string;
   /** Keep data URIs in full instead of truncating */
   keepDataUris?: boolean;
-  /** Enable OCR for images (default: false) */
+  /**
+   * Export images embedded in DOCX, PPTX and PDF files and HTML data URIs:
+   * each is passed to this callback and the Markdown links to the path it
+   * returns. Takes precedence over `imageDir`
+   */
+  onImage?: ImageHandler;
+  /** Export embedded images by writing them to this directory and linking to the files */
+  imageDir?: string;
+  /**
+   * Directory the Markdown will be saved in, so `imageDir` links are
+   * relative to it. Default: links are `imageDir` joined with the file name
+   */
+  markdownDir?: string;
+  /** Enable OCR for images and scanned PDF pages (default: false) */
   ocr?: boolean;
+  /** HTML pages: convert only the main content, dropping nav, footers and sidebars (default: false) */
+  mainContent?: boolean;
+  /** Resolve relative link and image URLs against `<base href>` and `url` (default: true) */
+  resolveLinks?: boolean;
+  /** Remove tracking query parameters such as `utm_*` and `fbclid` from URLs (default: false) */
+  stripTrackingParams?: boolean;
+  /** PDF: detect multi-column layouts and read each column top to bottom (default: true) */
+  detectColumns?: boolean;
+  /** PDF: start each page with a `<!-- page N -->` marker (default: false) */
+  pageMarkers?: boolean;
+  /**
+   * PPTX: mark hidden slides with "(hidden)" in their slide marker, include
+   * them like any other slide, or skip them (default: "flag")
+   */
+  hiddenSlides?: "flag" | "include" | "skip";
+  /** Called for each warning as it happens; they are also collected in `ConversionResult.warnings` */
+  onWarning?: (warning: ConversionWarning) => void;
+  /** Throw `DegradedConversionError` instead of reporting a warning (default: false) */
+  strict?: boolean;
+  /**
+   * Called before each page, slide, sheet or feed item with how many are
+   * done, and once more when all are
+   */
+  onProgress?: (progress: ConversionProgress) => void;
+  /** Abort the conversion; it stops at the next page, slide or sheet */
+  signal?: AbortSignal;
+  /** Abort conversions through `Mdize` that take longer than this */
+  timeoutMs?: number;
+  /** Fail instead of converting inputs that go over these limits */
+  limits?: ResourceLimits;
 }
 
 export abstract class DocumentConverter {
@@ -28,4 +280,25 @@ export abstract class DocumentConverter {
     info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult>;
+
+  /**
+   * Optional incremental conversion. Converters that implement it are given
+   * the document as a stream instead of a Buffer by `Mdize.convertStream`;
+   * their `accepts` then only sees the first bytes of the stream.
+   */
+  convertStream?(
+    input: AsyncIterable<Buffer>,
+    info: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult>;
+
+  /**
+   * Optional progressive conversion used by `Mdize.convertIter`, yielding
+   * one chunk per page, slide, sheet or feed item as soon as it is ready.
+   */
+  convertIter?(
+    input: Buffer,
+    info: StreamInfo,
+    options?: ConvertOptions,
+  ): AsyncIterable<ConversionChunk>;
 }
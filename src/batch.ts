@@ -0,0 +1,156 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join, relative } from "node:path";
+import type { ConversionResult, ConvertOptions } from "./base-converter.js";
+import { expandInput } from "./glob.js";
+
+export interface ConvertManyOptions extends ConvertOptions {
+  /** Conversions running at the same time. Default: 4 */
+  concurrency?: number;
+  /**
+   * Keep converting after a file fails and report the failure in its
+   * entry. When false, no new conversions start after the first failure
+   * and that error is thrown. Default: false
+   */
+  continueOnError?: boolean;
+  /**
+   * Write each result to `<outputDir>/<path relative to its input>.md`,
+   * mirroring the input directory tree. `imageDir` links are then relative
+   * to each Markdown file unless `markdownDir` is given
+   */
+  outputDir?: string;
+}
+
+export interface BatchEntry {
+  /** The input file */
+  path: string;
+  /** The Markdown file written, when `outputDir` is set and it succeeded */
+  outputPath?: string;
+  result?: ConversionResult;
+  /** Why the file failed; a `FileConversionError` keeps its `attempts` */
+  error?: Error;
+  durationMs: number;
+}
+
+export interface BatchSummary {
+  total: number;
+  converted: number;
+  failed: number;
+  /** Warnings across all converted files */
+  warnings: number;
+  durationMs: number;
+}
+
+export interface BatchResult {
+  /** One entry per input file, in input order */
+  entries: BatchEntry[];
+  summary: BatchSummary;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Expand `inputs`, convert every file with `convertFile` through a pool
+ * of `concurrency` workers and collect the outcomes.
+ */
+export async function runBatch(
+  inputs: string[],
+  options: ConvertManyOptions,
+  convertFile: (
+    path: string,
+    options: ConvertOptions,
+  ) => Promise<ConversionResult>,
+): Promise<BatchResult> {
+  const started = Date.now();
+  const { concurrency, continueOnError, outputDir, ...convertOptions } =
+    options;
+  const files = await collectFiles(inputs, outputDir);
+
+  const entries: BatchEntry[] = files.map(({ path }) => ({
+    path,
+    durationMs: 0,
+  }));
+  let failure: Error | undefined;
+  let next = 0;
+
+  const work = async (): Promise<void> => {
+    while (next < files.length && !failure) {
+      const index = next++;
+      const entry = entries[index];
+      const fileStarted = Date.now();
+      try {
+        const outputPath = files[index].outputPath;
+        entry.result = await convertFile(entry.path, {
+          ...convertOptions,
+          markdownDir:
+            convertOptions.markdownDir ??
+            (outputPath ? dirname(outputPath) : undefined),
+        });
+        if (outputPath) {
+          await mkdir(dirname(outputPath), { recursive: true });
+          await writeFile(outputPath, `${entry.result.markdown}\n`);
+          entry.outputPath = outputPath;
+        }
+      } catch (err) {
+        entry.error = err instanceof Error ? err : new Error(String(err));
+        if (!continueOnError) failure ??= entry.error;
+      }
+      entry.durationMs = Date.now() - fileStarted;
+    }
+  };
+
+  const workers = Math.max(1, concurrency ?? DEFAULT_CONCURRENCY);
+  await Promise.all(
+    Array.from({ length: Math.min(workers, files.length) }, work),
+  );
+  if (failure) throw failure;
+
+  const converted = entries.filter((e) => e.result && !e.error);
+  return {
+    entries,
+    summary: {
+      total: entries.length,
+      converted: converted.length,
+      failed: entries.length - converted.length,
+      warnings: converted.reduce(
+        (sum, e) => sum + (e.result!.warnings?.length ?? 0),
+        0,
+      ),
+      durationMs: Date.now() - started,
+    },
+  };
+}
+
+/**
+ * Input files in order, without duplicates, each with its output path.
+ * Files that would land on the same `.md` keep their extension, e.g.
+ * `report.pdf.md` and `report.docx.md`; files from different inputs that
+ * still collide are numbered, e.g. `x.txt.md` and `x.txt-2.md`.
+ */
+async function collectFiles(
+  inputs: string[],
+  outputDir: string | undefined,
+): Promise<{ path: string; outputPath?: string }[]> {
+  const files = new Map<string, string>();
+  for (const input of inputs) {
+    const { base, files: paths } = await expandInput(input);
+    for (const path of paths) {
+      if (!files.has(path)) files.set(path, relative(base, path));
+    }
+  }
+  if (!outputDir) return [...files.keys()].map((path) => ({ path }));
+
+  const stem = (rel: string) =>
+    join(dirname(rel), basename(rel, extname(rel)));
+  const counts = new Map<string, number>();
+  for (const rel of files.values()) {
+    counts.set(stem(rel), (counts.get(stem(rel)) ?? 0) + 1);
+  }
+  const taken = new Set<string>();
+  return [...files].map(([path, rel]) => {
+    const name = join(outputDir, counts.get(stem(rel))! > 1 ? rel : stem(rel));
+    let outputPath = `${name}.md`;
+    for (let n = 2; taken.has(outputPath); n++) outputPath = `${name}-${n}.md`;
+    taken.add(outputPath);
+    return { path, outputPath };
+  });
+}
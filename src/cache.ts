@@ -0,0 +1,136 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import type {
+  ConversionResult,
+  ConvertOptions,
+  StreamInfo,
+} from "./base-converter.js";
+import { fromCloneable, toCloneable } from "./clone.js";
+
+/**
+ * Stores conversion results by a key that covers everything the result
+ * depends on; see `cacheKey`. Both methods may be sync or async.
+ */
+export interface ConversionCache {
+  get(
+    key: string,
+  ): ConversionResult | undefined | Promise<ConversionResult | undefined>;
+  set(key: string, result: ConversionResult): void | Promise<void>;
+}
+
+const { version: VERSION } = createRequire(import.meta.url)(
+  "../package.json",
+) as { version: string };
+
+/** Options that only affect how a conversion runs, not its result */
+const UNCACHED_OPTIONS = new Set([
+  "onWarning",
+  "onProgress",
+  "signal",
+  "timeoutMs",
+  "streamInfo",
+  "fetch",
+]);
+
+/**
+ * Hash of the input bytes, its format, name and URL, the converter chosen
+ * for it, the options that shape the output and the mdize version, so
+ * that a change to any of them misses the cache.
+ */
+export function cacheKey(
+  input: Buffer,
+  info: StreamInfo,
+  converter: string,
+  options?: ConvertOptions,
+): string {
+  const relevant = Object.entries(options ?? {})
+    .filter(([key, value]) => !UNCACHED_OPTIONS.has(key) && value !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256")
+    .update(createHash("sha256").update(input).digest("hex"))
+    .update(
+      JSON.stringify([
+        VERSION,
+        info.mimetype,
+        info.extension,
+        info.charset,
+        info.filename,
+        info.url,
+        converter,
+        relevant,
+      ]),
+    )
+    .digest("hex");
+}
+
+export interface MemoryCacheOptions {
+  /** Results kept before the least recently used is evicted. Default: 100 */
+  maxEntries?: number;
+}
+
+/**
+ * Keeps the most recently used results in memory. Results are copied in
+ * and out, so callers cannot change what later hits return.
+ */
+export class MemoryCache implements ConversionCache {
+  private readonly entries = new Map<string, ConversionResult>();
+  private readonly maxEntries: number;
+
+  constructor(options?: MemoryCacheOptions) {
+    this.maxEntries = options?.maxEntries ?? 100;
+  }
+
+  get(key: string): ConversionResult | undefined {
+    const result = this.entries.get(key);
+    if (result) {
+      // Map order is insertion order: move the entry to the end
+      this.entries.delete(key);
+      this.entries.set(key, result);
+    }
+    return result && structuredClone(result);
+  }
+
+  set(key: string, result: ConversionResult): void {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(result));
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores each result as `<dir>/<key>.json`, so it is shared between
+ * processes and survives restarts. Unreadable entries count as misses.
+ */
+export class FileSystemCache implements ConversionCache {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<ConversionResult | undefined> {
+    try {
+      const json = await readFile(this.path(key), "utf-8");
+      return fromCloneable(JSON.parse(json)) as ConversionResult;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, result: ConversionResult): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    // Write under a temporary name so readers never see a partial file
+    const temp = `${this.path(key)}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temp, JSON.stringify(toCloneable(result)));
+    await rename(temp, this.path(key));
+  }
+
+  private path(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,313 @@
+import { parseArgs } from "node:util";
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import type { Readable, Writable } from "node:stream";
+import { Mdize } from "./mdize.js";
+import type { StreamInfo, ConvertOptions } from "./base-converter.js";
+import {
+  UnsupportedFormatError,
+  FileConversionError,
+  DegradedConversionError,
+  ConversionAbortedError,
+} from "./errors.js";
+import { isHttpUrl } from "./fetch-url.js";
+
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_UNSUPPORTED_FORMAT = 3;
+export const EXIT_CONVERSION_FAILED = 4;
+
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
+const USAGE = `Usage: mdize [options] [file | url ...]
+
+Convert documents to Markdown. Reads from stdin when no file is given
+or when a file is "-". http(s) URLs are downloaded first.
+
+Options:
+  -o, --output-dir <dir>   Write <name>.md files into <dir> instead of stdout
+  -x, --extension <ext>    Extension hint, e.g. ".pdf"
+  -m, --mimetype <type>    Mimetype hint, e.g. "application/pdf"
+  -c, --charset <charset>  Charset hint, e.g. "cp932"
+  -u, --url <url>          URL context for the document
+      --keep-data-uris     Keep data URIs in full instead of truncating
+      --image-dir <dir>    Write embedded images into <dir> and link to them
+      --ocr                Enable OCR for images and scanned PDF pages
+      --main-content       HTML: convert only the main content region
+      --keep-relative-links  HTML: do not resolve relative link/image URLs
+      --strip-tracking     Remove tracking query parameters from URLs
+      --single-column      PDF: do not detect multi-column layouts
+      --page-markers       PDF: mark page boundaries with <!-- page N -->
+      --hidden-slides <skip|include|mark>
+                           PPTX: what to do with hidden slides (default: mark)
+      --strict             Fail instead of warning when output is degraded
+      --timeout <ms>       Give up on an input after this many milliseconds
+  -h, --help               Show this help
+
+Exit codes:
+  0  success
+  1  unexpected error
+  2  invalid usage
+  3  unsupported format
+  4  all matching converters failed, degraded output in --strict mode,
+     or --timeout exceeded`;
+
+/** `--hidden-slides` values and the `hiddenSlides` option each stands for */
+const HIDDEN_SLIDES = new Map<string, ConvertOptions["hiddenSlides"]>([
+  ["skip", "skip"],
+  ["include", "include"],
+  ["mark", "flag"],
+]);
+
+interface CliOptions {
+  outputDir?: string;
+  hints: StreamInfo;
+  convertOptions: ConvertOptions;
+}
+
+/**
+ * Run the mdize command line. Returns the process exit code instead of
+ * exiting so it can be driven from tests.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = process,
+): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (err) {
+    io.stderr.write(`mdize: ${errorMessage(err)}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  if (parsed.values.help) {
+    io.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+
+  const timeout = parsed.values.timeout;
+  const timeoutMs = timeout === undefined ? undefined : Number(timeout);
+  const validTimeout = Number.isInteger(timeoutMs) && timeoutMs! > 0;
+  if (timeoutMs !== undefined && !validTimeout) {
+    io.stderr.write(
+      `mdize: --timeout must be a positive number of milliseconds\n\n${USAGE}\n`,
+    );
+    return EXIT_USAGE;
+  }
+
+  const hiddenSlides = parsed.values["hidden-slides"];
+  if (hiddenSlides !== undefined && !HIDDEN_SLIDES.has(hiddenSlides)) {
+    io.stderr.write(
+      `mdize: --hidden-slides must be skip, include or mark\n\n${USAGE}\n`,
+    );
+    return EXIT_USAGE;
+  }
+
+  const options: CliOptions = {
+    outputDir: parsed.values["output-dir"],
+    hints: {
+      extension: normalizeExtension(parsed.values.extension),
+      mimetype: parsed.values.mimetype,
+      charset: parsed.values.charset,
+      url: parsed.values.url,
+    },
+    convertOptions: {
+      url: parsed.values.url,
+      keepDataUris: parsed.values["keep-data-uris"],
+      imageDir: parsed.values["image-dir"],
+      // Images are linked from the Markdown files, wherever those go
+      markdownDir: parsed.values["output-dir"],
+      ocr: parsed.values.ocr,
+      mainContent: parsed.values["main-content"],
+      resolveLinks: parsed.values["keep-relative-links"] ? false : undefined,
+      stripTrackingParams: parsed.values["strip-tracking"],
+      detectColumns: parsed.values["single-column"] ? false : undefined,
+      pageMarkers: parsed.values["page-markers"],
+      hiddenSlides:
+        hiddenSlides === undefined ? undefined : HIDDEN_SLIDES.get(hiddenSlides),
+      strict: parsed.values.strict,
+      timeoutMs,
+    },
+  };
+
+  const inputs = parsed.positionals.length > 0 ? parsed.positionals : ["-"];
+  if (inputs.filter((p) => p === "-").length > 1) {
+    io.stderr.write("mdize: stdin (-) can only be given once\n");
+    return EXIT_USAGE;
+  }
+
+  const mdize = new Mdize();
+  let exitCode = EXIT_OK;
+  const taken = new Set<string>();
+
+  for (const input of inputs) {
+    const convertOptions: ConvertOptions = {
+      ...options.convertOptions,
+      onWarning: (warning) => {
+        io.stderr.write(
+          `mdize: ${displayName(input)}: warning: ${warning.message}\n`,
+        );
+      },
+    };
+    try {
+      const markdown = await convertInput(
+        mdize,
+        input,
+        { ...options, convertOptions },
+        io,
+      );
+      await writeOutput(markdown, input, inputs.length, options, io, taken);
+    } catch (err) {
+      const code = exitCodeFor(err);
+      io.stderr.write(`mdize: ${displayName(input)}: ${describeError(err)}\n`);
+      // Keep the most specific failure code when several inputs fail
+      if (exitCode === EXIT_OK || code > exitCode) exitCode = code;
+    }
+  }
+
+  return exitCode;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      "output-dir": { type: "string", short: "o" },
+      extension: { type: "string", short: "x" },
+      mimetype: { type: "string", short: "m" },
+      charset: { type: "string", short: "c" },
+      url: { type: "string", short: "u" },
+      "keep-data-uris": { type: "boolean" },
+      "image-dir": { type: "string" },
+      ocr: { type: "boolean" },
+      "main-content": { type: "boolean" },
+      "keep-relative-links": { type: "boolean" },
+      "strip-tracking": { type: "boolean" },
+      "single-column": { type: "boolean" },
+      "page-markers": { type: "boolean" },
+      "hidden-slides": { type: "string" },
+      strict: { type: "boolean" },
+      timeout: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+async function convertInput(
+  mdize: Mdize,
+  input: string,
+  options: CliOptions,
+  io: CliIO,
+): Promise<string> {
+  if (input === "-") {
+    const buffer = await readAll(io.stdin);
+    const result = await mdize.convertBuffer(
+      buffer,
+      stripUndefined({ ...options.hints }),
+      options.convertOptions,
+    );
+    return result.markdown;
+  }
+
+  if (isHttpUrl(input)) {
+    const result = await mdize.convertUrl(input, {
+      ...options.convertOptions,
+      streamInfo: stripUndefined({ ...options.hints }),
+    });
+    return result.markdown;
+  }
+
+  const result = await mdize.convertFile(input, {
+    ...options.convertOptions,
+    streamInfo: stripUndefined({ ...options.hints }),
+  });
+  return result.markdown;
+}
+
+async function writeOutput(
+  markdown: string,
+  input: string,
+  inputCount: number,
+  options: CliOptions,
+  io: CliIO,
+  taken: Set<string>,
+): Promise<void> {
+  if (options.outputDir) {
+    // Inputs with the same name, e.g. a/notes.txt and b/notes.txt, are
+    // numbered rather than overwriting each other
+    const name = input === "-" ? "stdin" : outputName(input);
+    let file = `${name}.md`;
+    for (let n = 2; taken.has(file); n++) file = `${name}-${n}.md`;
+    taken.add(file);
+    await mkdir(options.outputDir, { recursive: true });
+    await writeFile(join(options.outputDir, file), `${markdown}\n`);
+    return;
+  }
+
+  // Separate documents when several are written to stdout
+  if (inputCount > 1) {
+    io.stdout.write(`<!-- ${displayName(input)} -->\n`);
+  }
+  io.stdout.write(`${markdown}\n`);
+  if (inputCount > 1) io.stdout.write("\n");
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function exitCodeFor(err: unknown): number {
+  if (err instanceof UnsupportedFormatError) return EXIT_UNSUPPORTED_FORMAT;
+  if (err instanceof FileConversionError) return EXIT_CONVERSION_FAILED;
+  if (err instanceof DegradedConversionError) return EXIT_CONVERSION_FAILED;
+  if (err instanceof ConversionAbortedError) return EXIT_CONVERSION_FAILED;
+  return EXIT_ERROR;
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof FileConversionError) {
+    const details = err.attempts
+      .map((a) => `  ${a.converter}: ${a.error.message}`)
+      .join("\n");
+    return `${err.message}\n${details}`;
+  }
+  return errorMessage(err);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function outputName(input: string): string {
+  const path = isHttpUrl(input) ? new URL(input).pathname : input;
+  return basename(path, extname(path)) || "index";
+}
+
+function displayName(input: string): string {
+  return input === "-" ? "<stdin>" : input;
+}
+
+function normalizeExtension(ext: string | undefined): string | undefined {
+  if (!ext) return undefined;
+  const lower = ext.toLowerCase();
+  return lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+function stripUndefined(info: StreamInfo): StreamInfo {
+  for (const key of Object.keys(info) as (keyof StreamInfo)[]) {
+    if (info[key] === undefined) delete info[key];
+  }
+  return info;
+}
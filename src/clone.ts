@@ -0,0 +1,102 @@
+import {
+  MdizeError,
+  UnsupportedFormatError,
+  FileConversionError,
+  MissingDependencyError,
+  UrlFetchError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  ResourceLimitError,
+} from "./errors.js";
+
+const ERROR_TYPES: Record<string, { prototype: Error }> = {
+  Error,
+  TypeError,
+  RangeError,
+  MdizeError,
+  UnsupportedFormatError,
+  FileConversionError,
+  MissingDependencyError,
+  UrlFetchError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  ResourceLimitError,
+};
+
+interface ClonedError {
+  $error: {
+    name: string;
+    message: string;
+    stack?: string;
+    props: Record<string, unknown>;
+  };
+}
+
+/**
+ * Prepare a value for `postMessage` or JSON. Errors become plain objects
+ * that keep their class name and own fields (`attempts`, `code`,
+ * `progress`, `cause`) so `fromCloneable` can rebuild them; functions
+ * are dropped.
+ */
+export function toCloneable(value: unknown): unknown {
+  if (value instanceof Error) {
+    const props: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      props[key] = toCloneable(field);
+    }
+    if ("cause" in value) props.cause = toCloneable(value.cause);
+    const cloned: ClonedError = {
+      $error: {
+        name: value.name,
+        message: value.message,
+        stack: value.stack,
+        props,
+      },
+    };
+    return cloned;
+  }
+  if (Array.isArray(value)) return value.map(toCloneable);
+  if (isPlainObject(value)) {
+    const object: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (typeof field !== "function") object[key] = toCloneable(field);
+    }
+    return object;
+  }
+  return typeof value === "function" ? undefined : value;
+}
+
+/** Undo `toCloneable`, restoring errors as instances of their class */
+export function fromCloneable(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(fromCloneable);
+  if (!isPlainObject(value)) return value;
+  if ("$error" in value) {
+    const { name, message, stack, props } = (value as unknown as ClonedError).$error;
+    const error = Object.create(
+      (ERROR_TYPES[name] ?? Error).prototype,
+    ) as Error;
+    for (const [key, field] of Object.entries({ message, stack })) {
+      Object.defineProperty(error, key, {
+        value: field,
+        writable: true,
+        configurable: true,
+      });
+    }
+    for (const [key, field] of Object.entries(props)) {
+      (error as unknown as Record<string, unknown>)[key] = fromCloneable(field);
+    }
+    if (error.name !== name) error.name = name;
+    return error;
+  }
+  const object: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    object[key] = fromCloneable(field);
+  }
+  return object;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,226 @@
+export interface LayoutItem {
+  str: string;
+  x0: number;
+  x1: number;
+  /** Distance from the top of the page */
+  top: number;
+}
+
+/** Narrowest vertical whitespace strip that counts as a column gutter */
+const MIN_GUTTER_WIDTH = 8;
+
+/** Each side of a gutter needs this many lines to be a column */
+const MIN_COLUMN_LINES = 4;
+
+/** Columns need this many characters per line on average (forms have less) */
+const MIN_CHARS_PER_LINE = 15;
+
+/** Fraction of lines allowed to cross a gutter (titles, full-width abstracts) */
+const CROSSING_TOLERANCE = 0.1;
+
+/** Nested cuts allowed, so up to four columns side by side */
+const MAX_DEPTH = 3;
+
+/** Items whose tops differ by at most this are on the same line */
+const LINE_TOLERANCE = 5;
+
+/**
+ * Reorder text items so multi-column layouts read one column at a time.
+ *
+ * A recursive XY-cut: find a vertical whitespace gutter that splits the
+ * items into two columns, cut the page into horizontal bands at the lines
+ * that cross the gutter (titles, full-width figures and abstracts), and
+ * emit each band's left column before its right column. Pages without a
+ * gutter are returned in their original order.
+ */
+export function orderByColumns<T extends LayoutItem>(items: T[]): T[] {
+  return cutColumns(items, 0).flat();
+}
+
+/**
+ * Split text items into the blocks `orderByColumns` reads one after the
+ * other: each column of each band, and the lines crossing the gutters.
+ * Pages without a gutter are a single block.
+ */
+export function splitColumns<T extends LayoutItem>(items: T[]): T[][] {
+  return cutColumns(items, 0).filter((block) => block.length > 0);
+}
+
+function cutColumns<T extends LayoutItem>(items: T[], depth: number): T[][] {
+  if (depth >= MAX_DEPTH) return [items];
+  const gutter = findGutter(items);
+  if (!gutter) return [items];
+
+  const left: T[] = [];
+  const right: T[] = [];
+  const spanning: T[] = [];
+  for (const item of items) {
+    if (item.x1 <= gutter.start + 0.5) left.push(item);
+    else if (item.x0 >= gutter.end - 0.5) right.push(item);
+    else spanning.push(item);
+  }
+  if (!isColumn(left) || !isColumn(right) || !columnsOverlap(left, right)) {
+    return [items];
+  }
+
+  // Column items sharing a line with a spanning item stay with it
+  const spanSet = new Set(spanning);
+  const spanTops = spanning.map((item) => item.top);
+  const onSpanningLine = (item: T): boolean =>
+    spanTops.some((top) => Math.abs(top - item.top) <= LINE_TOLERANCE);
+
+  const rows: { top: number; items: T[] }[] = [];
+  for (const item of [...spanning, ...left, ...right]) {
+    if (!spanSet.has(item) && !onSpanningLine(item)) continue;
+    let row = rows.find((r) => Math.abs(r.top - item.top) <= LINE_TOLERANCE);
+    if (!row) {
+      row = { top: item.top, items: [] };
+      rows.push(row);
+    }
+    row.items.push(item);
+  }
+  rows.sort((a, b) => a.top - b.top);
+
+  const bands: { left: T[]; right: T[] }[] = rows.map(() => ({
+    left: [],
+    right: [],
+  }));
+  bands.push({ left: [], right: [] });
+  const bandOf = (item: T): number => {
+    let band = 0;
+    while (band < rows.length && rows[band].top < item.top) band++;
+    return band;
+  };
+  for (const item of left) {
+    if (!onSpanningLine(item)) bands[bandOf(item)].left.push(item);
+  }
+  for (const item of right) {
+    if (!onSpanningLine(item)) bands[bandOf(item)].right.push(item);
+  }
+
+  const blocks: T[][] = [];
+  for (let i = 0; i < bands.length; i++) {
+    blocks.push(...cutColumns(byTop(bands[i].left), depth + 1));
+    blocks.push(...cutColumns(byTop(bands[i].right), depth + 1));
+    if (i < rows.length) blocks.push(rows[i].items);
+  }
+  return blocks;
+}
+
+/**
+ * Widest vertical strip, away from the page edges, that almost no item
+ * covers.
+ */
+function findGutter(
+  items: LayoutItem[],
+): { start: number; end: number } | null {
+  if (items.length < MIN_COLUMN_LINES * 2) return null;
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (const item of items) {
+    minX = Math.min(minX, item.x0);
+    maxX = Math.max(maxX, item.x1);
+  }
+  const width = Math.ceil(maxX - minX);
+  if (width < MIN_GUTTER_WIDTH * 3) return null;
+
+  const coverage = new Uint32Array(width + 1);
+  for (const item of items) {
+    const from = Math.max(0, Math.floor(item.x0 - minX));
+    const to = Math.min(width, Math.ceil(item.x1 - minX));
+    for (let x = from; x < to; x++) coverage[x]++;
+  }
+
+  // Count lines rather than items, which may be single words
+  const tolerance = Math.ceil(countLines(items) * CROSSING_TOLERANCE);
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  for (let x = 0; x <= width; x++) {
+    const open = x < width && coverage[x] <= tolerance;
+    if (open && runStart < 0) runStart = x;
+    if (!open && runStart >= 0) {
+      const center = (runStart + x) / 2;
+      const inMiddle = center > width * 0.15 && center < width * 0.85;
+      if (
+        inMiddle &&
+        x - runStart >= MIN_GUTTER_WIDTH &&
+        (!best || x - runStart > best.end - best.start)
+      ) {
+        best = { start: runStart, end: x };
+      }
+      runStart = -1;
+    }
+  }
+
+  if (!best) return null;
+
+  // The tolerance lets the strip reach into the longest lines of a ragged
+  // column; keep it to the stretch no line crosses, where there is one
+  const clear = widestRun(coverage, best, 0);
+  if (clear && clear.end - clear.start >= MIN_GUTTER_WIDTH) best = clear;
+  return { start: best.start + minX, end: best.end + minX };
+}
+
+/** Widest run within `range` whose coverage is at most `max` */
+function widestRun(
+  coverage: Uint32Array,
+  range: { start: number; end: number },
+  max: number,
+): { start: number; end: number } | null {
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  for (let x = range.start; x <= range.end; x++) {
+    const open = x < range.end && coverage[x] <= max;
+    if (open && runStart < 0) runStart = x;
+    if (!open && runStart >= 0) {
+      if (!best || x - runStart > best.end - best.start) {
+        best = { start: runStart, end: x };
+      }
+      runStart = -1;
+    }
+  }
+  return best;
+}
+
+function isColumn(items: LayoutItem[]): boolean {
+  const lines = countLines(items);
+  if (lines < MIN_COLUMN_LINES) return false;
+  const chars = items.reduce((sum, item) => sum + item.str.trim().length, 0);
+  return chars / lines >= MIN_CHARS_PER_LINE;
+}
+
+/** Side-by-side columns share most of their vertical extent */
+function columnsOverlap(left: LayoutItem[], right: LayoutItem[]): boolean {
+  const [leftTop, leftBottom] = verticalExtent(left);
+  const [rightTop, rightBottom] = verticalExtent(right);
+  const overlap =
+    Math.min(leftBottom, rightBottom) - Math.max(leftTop, rightTop);
+  const shorter = Math.min(leftBottom - leftTop, rightBottom - rightTop);
+  return overlap > 0 && overlap >= shorter * 0.5;
+}
+
+function verticalExtent(items: LayoutItem[]): [number, number] {
+  let top = Infinity;
+  let bottom = -Infinity;
+  for (const item of items) {
+    top = Math.min(top, item.top);
+    bottom = Math.max(bottom, item.top);
+  }
+  return [top, bottom];
+}
+
+function countLines(items: LayoutItem[]): number {
+  const tops = items.map((item) => item.top).sort((a, b) => a - b);
+  let lines = 0;
+  let last = -Infinity;
+  for (const top of tops) {
+    if (top - last > LINE_TOLERANCE) lines++;
+    last = top;
+  }
+  return lines;
+}
+
+function byTop<T extends LayoutItem>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.top - b.top);
+}
@@ -1,16 +1,30 @@
-import { parse } from "csv-parse/sync";
+import { Readable } from "node:stream";
+import { parse } from "csv-parse";
+import { parse as parseSync } from "csv-parse/sync";
 import iconv from "iconv-lite";
 import jschardet from "jschardet";
 import {
   DocumentConverter,
+  documentSections,
+  WarningCollector,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
 } from "../base-converter.js";
+import { peekStream } from "../stream-utils.js";
+import { checkLimit } from "../limits.js";
 
 const CSV_EXTENSIONS = new Set([".csv"]);
 const CSV_MIMETYPES = new Set(["text/csv", "application/csv"]);
 
+/** Bytes sampled from a stream for charset detection */
+const CHARSET_SAMPLE_SIZE = 64 * 1024;
+
+const CSV_PARSE_OPTIONS = {
+  relax_column_count: true,
+  skip_empty_lines: true,
+};
+
 export class CsvConverter extends DocumentConverter {
   accepts(_input: Buffer, info: StreamInfo): boolean {
     if (info.extension && CSV_EXTENSIONS.has(info.extension)) return true;
@@ -21,61 +35,131 @@ export class CsvConverter extends DocumentConverter {
   async convert(
     input: Buffer,
     info: StreamInfo,
-    _options?: ConvertOptions,
+    options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    let charset = info.charset;
-    if (!charset) {
-      // Auto-detect encoding
-      const detected = jschardet.detect(input);
-      if (detected?.encoding && detected.confidence > 0.5) {
-        charset = detected.encoding;
-      } else {
-        charset = "utf-8";
-      }
-    }
-
-    let text: string;
-    if (iconv.encodingExists(charset)) {
-      text = iconv.decode(input, charset);
-    } else {
-      text = input.toString("utf-8");
-    }
+    const warnings = new WarningCollector(options);
+    const charset = resolveCharset(input, info, warnings);
+    let text = iconv.decode(input, charset);
 
     // Remove BOM if present
     if (text.charCodeAt(0) === 0xfeff) {
       text = text.slice(1);
     }
 
-    const records: string[][] = parse(text, {
-      relax_column_count: true,
-      skip_empty_lines: true,
-    });
+    const records: string[][] = parseSync(text, CSV_PARSE_OPTIONS);
 
-    if (records.length === 0) {
-      return { markdown: "" };
+    const table = new MarkdownTableBuilder(options);
+    for (const record of records) {
+      table.add(record);
     }
+    return table.toResult(charset, warnings);
+  }
 
-    const header = records[0];
-    const numCols = header.length;
+  async convertStream(
+    input: AsyncIterable<Buffer>,
+    info: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const { prefix, stream } = await peekStream(input, CHARSET_SAMPLE_SIZE);
+    const warnings = new WarningCollector(options);
+    const charset = resolveCharset(prefix, info, warnings);
+    const decoder = iconv.getDecoder(charset);
 
-    const lines: string[] = [];
+    async function* decode(): AsyncGenerator<string> {
+      for await (const chunk of stream) {
+        const text = decoder.write(chunk);
+        if (text) yield text;
+      }
+      const rest = decoder.end();
+      if (rest) yield rest;
+    }
 
-    // Header row
-    lines.push("| " + header.join(" | ") + " |");
-    // Separator
-    lines.push("| " + header.map(() => "---").join(" | ") + " |");
+    const source = Readable.from(decode());
+    const parser = parse({ ...CSV_PARSE_OPTIONS, bom: true });
+    source.on("error", (err) => parser.destroy(err));
+    source.pipe(parser);
 
-    // Data rows
-    for (let i = 1; i < records.length; i++) {
-      const row = records[i];
-      // Pad or truncate to match header columns
-      const cells: string[] = [];
-      for (let j = 0; j < numCols; j++) {
-        cells.push(row[j] ?? "");
-      }
-      lines.push("| " + cells.join(" | ") + " |");
+    const table = new MarkdownTableBuilder(options);
+    for await (const record of parser) {
+      table.add(record as string[]);
     }
+    return table.toResult(charset, warnings);
+  }
+}
+
+/** The hinted or detected charset when iconv knows it, UTF-8 otherwise */
+function resolveCharset(
+  sample: Buffer,
+  info: StreamInfo,
+  warnings: WarningCollector,
+): string {
+  if (info.charset) {
+    if (iconv.encodingExists(info.charset)) return info.charset;
+    warnings.warn(
+      "charset-fallback",
+      `Unknown charset "${info.charset}", decoded as UTF-8`,
+    );
+    return "utf-8";
+  }
+
+  // Auto-detect encoding
+  const detected = jschardet.detect(sample);
+  if (
+    detected?.encoding &&
+    detected.confidence > 0.5 &&
+    iconv.encodingExists(detected.encoding)
+  ) {
+    return detected.encoding;
+  }
+  return "utf-8";
+}
+
+/**
+ * Accumulates CSV records into Markdown table lines. The first record is
+ * the header and fixes the column count.
+ */
+class MarkdownTableBuilder {
+  private lines: string[] = [];
+  private numCols = 0;
+
+  constructor(private readonly options?: ConvertOptions) {}
+
+  add(record: string[]): void {
+    if (this.lines.length === 0) {
+      this.numCols = record.length;
+      // Header row
+      this.lines.push("| " + record.join(" | ") + " |");
+      // Separator
+      this.lines.push("| " + record.map(() => "---").join(" | ") + " |");
+      return;
+    }
+
+    // Data rows so far, plus this one
+    checkLimit(this.options, "maxRows", this.lines.length - 1);
+
+    // Pad or truncate to match header columns
+    const cells: string[] = [];
+    for (let j = 0; j < this.numCols; j++) {
+      cells.push(record[j] ?? "");
+    }
+    this.lines.push("| " + cells.join(" | ") + " |");
+  }
+
+  toString(): string {
+    return this.lines.join("\n");
+  }
 
-    return { markdown: lines.join("\n") };
+  toResult(charset: string, warnings: WarningCollector): ConversionResult {
+    const markdown = this.toString();
+    return {
+      markdown,
+      metadata: {
+        rowCount: Math.max(0, this.lines.length - 2),
+        columnCount: this.numCols,
+        charset,
+      },
+      sections: documentSections(markdown),
+      warnings: warnings.warnings,
+    };
   }
 }
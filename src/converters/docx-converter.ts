@@ -1,11 +1,19 @@
 import mammoth from "mammoth";
+import JSZip from "jszip";
 import {
   DocumentConverter,
+  WarningCollector,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
 } from "../base-converter.js";
-import { convertHtmlString } from "./html-converter.js";
+import {
+  convertHtmlString,
+  exportDataUriImages,
+} from "./html-converter.js";
+import { readCoreProperties } from "./ooxml-properties.js";
+import { checkArchive } from "../limits.js";
+import { ImageExporter } from "../images.js";
 
 const DOCX_EXTENSIONS = new Set([".docx"]);
 const DOCX_MIMETYPES = new Set([
@@ -24,7 +32,30 @@ export class DocxConverter extends DocumentConverter {
     _info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
+    const zip = await JSZip.loadAsync(input);
+    await checkArchive(zip, options);
+    const warnings = new WarningCollector(options);
+    // mammoth inlines images as data URIs, exported like an HTML page's
     const result = await mammoth.convertToHtml({ buffer: input });
-    return convertHtmlString(result.value, options);
+    for (const message of result.messages) {
+      warnings.warn("unsupported-content", message.message);
+    }
+    const exported = await exportDataUriImages(
+      result.value,
+      new ImageExporter(options),
+    );
+    const { markdown, sections } = convertHtmlString(
+      result.value,
+      options,
+      exported,
+    );
+    const metadata = await readCoreProperties(zip, warnings);
+    return {
+      markdown,
+      title: metadata.title,
+      metadata,
+      sections,
+      warnings: warnings.warnings,
+    };
   }
 }
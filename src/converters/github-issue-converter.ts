@@ -0,0 +1,181 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI, Cheerio } from "cheerio";
+import type { Element } from "domhandler";
+import {
+  DocumentConverter,
+  WarningCollector,
+  documentSections,
+  type StreamInfo,
+  type ConversionResult,
+  type ConvertOptions,
+} from "../base-converter.js";
+import {
+  convertHtmlString,
+  decodeHtml,
+  exportDataUriImages,
+  isHtmlStream,
+  readHtmlMetadata,
+  withDocumentUrl,
+  type ExportedImages,
+} from "./html-converter.js";
+import { rewriteHtmlUrls } from "./html-urls.js";
+import { ImageExporter } from "../images.js";
+
+const GITHUB_ISSUE_URL =
+  /^https?:\/\/github\.com\/[^/]+\/[^/]+\/issues\/(\d+)/i;
+
+interface Comment {
+  author?: string;
+  date?: string;
+  body: string;
+}
+
+export class GitHubIssueConverter extends DocumentConverter {
+  accepts(input: Buffer, info: StreamInfo): boolean {
+    if (!isHtmlStream(info)) return false;
+    if (info.url && GITHUB_ISSUE_URL.test(info.url)) return true;
+    // Saved or mirrored pages: classic or React issue markup
+    return (
+      input.includes('content="GitHub"') &&
+      (input.includes("js-issue-title") ||
+        input.includes('data-testid="issue-title"'))
+    );
+  }
+
+  async convert(
+    input: Buffer,
+    info: StreamInfo,
+    convertOptions?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const options = withDocumentUrl(convertOptions, info);
+    const warnings = new WarningCollector(options);
+    const $ = cheerio.load(decodeHtml(input, info, warnings));
+    $("script, style, noscript").remove();
+    // Resolve against the page's <base> before fragments are cut out
+    rewriteHtmlUrls($, options);
+
+    const title =
+      $('.js-issue-title, [data-testid="issue-title"]').first().text().trim() ||
+      undefined;
+    if (!title) {
+      throw new Error("No GitHub issue found");
+    }
+
+    const urlNumber = info.url?.match(GITHUB_ISSUE_URL)?.[1];
+    const number =
+      $(".gh-header-number").first().text().trim() ||
+      (urlNumber ? `#${urlNumber}` : undefined);
+    const state = $('.State, [data-testid="header-state"]')
+      .first()
+      .text()
+      .trim();
+
+    const exported = await exportDataUriImages(
+      $.html($(".comment-body, .markdown-body")),
+      new ImageExporter(options),
+    );
+    const comments = readComments($, options, exported);
+    const [issue, ...replies] = comments;
+
+    const parts: string[] = [number ? `# ${title} ${number}` : `# ${title}`];
+    const meta: string[] = [];
+    if (state) meta.push(`**State:** ${state}`);
+    if (issue?.author) meta.push(`**Author:** ${issue.author}`);
+    if (issue?.date) meta.push(`**Opened:** ${issue.date}`);
+    if (meta.length > 0) parts.push(meta.join(" · "));
+    if (issue) parts.push(issue.body);
+
+    if (replies.length > 0) {
+      parts.push(`## Comments (${replies.length})`);
+      for (const reply of replies) {
+        const date = reply.date ? ` on ${reply.date}` : "";
+        parts.push(`### ${reply.author ?? "Unknown"} commented${date}`);
+        parts.push(reply.body);
+      }
+    }
+
+    const metadata = readHtmlMetadata($);
+    metadata.title = title;
+    if (issue?.author) metadata.author = issue.author;
+    if (issue?.date) metadata.created = issue.date;
+
+    const markdown = parts.filter(Boolean).join("\n\n").trim();
+    return {
+      markdown,
+      title,
+      metadata,
+      sections: documentSections(markdown),
+      warnings: warnings.warnings,
+    };
+  }
+}
+
+/**
+ * Read the issue body and its comments in timeline order. The first entry
+ * is the issue itself.
+ */
+function readComments(
+  $: CheerioAPI,
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): Comment[] {
+  // Classic markup
+  const classic = $(".timeline-comment").toArray();
+  if (classic.length > 0) {
+    return classic.map((el) => {
+      const $el = $(el);
+      return readComment(
+        $el.find(".author").first(),
+        $el.find("relative-time, time").first(),
+        $el.find(".comment-body").first(),
+        options,
+        exported,
+      );
+    });
+  }
+
+  // React markup
+  const comments: Comment[] = [];
+  const issueBody = $('[data-testid="issue-body"]').first();
+  if (issueBody.length > 0) {
+    comments.push(
+      readComment(
+        issueBody.find('[data-testid="issue-body-header-author"]').first(),
+        issueBody.find("relative-time, time").first(),
+        issueBody.find(".markdown-body").first(),
+        options,
+        exported,
+      ),
+    );
+  }
+  $('[data-testid="comment-viewer-outer-box"], .react-issue-comment').each(
+    (_i, el) => {
+      const $el = $(el);
+      comments.push(
+        readComment(
+          $el.find('[data-testid="avatar-link"], .author').first(),
+          $el.find("relative-time, time").first(),
+          $el.find(".markdown-body").first(),
+          options,
+          exported,
+        ),
+      );
+    },
+  );
+  return comments;
+}
+
+function readComment(
+  authorEl: Cheerio<Element>,
+  timeEl: Cheerio<Element>,
+  bodyEl: Cheerio<Element>,
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): Comment {
+  const { markdown } = convertHtmlString(bodyEl.html() ?? "", options, exported);
+  return {
+    author: authorEl.text().trim() || undefined,
+    date: timeEl.attr("datetime")?.slice(0, 10) || undefined,
+    body: markdown,
+  };
+}
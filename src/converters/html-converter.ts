@@ -1,13 +1,21 @@
 import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import iconv from "iconv-lite";
 import TurndownService from "turndown";
 // @ts-ignore
 import { gfm } from "turndown-plugin-gfm";
 import {
   DocumentConverter,
+  WarningCollector,
+  documentSections,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type DocumentMetadata,
 } from "../base-converter.js";
+import { extractMainContent } from "./main-content.js";
+import { rewriteHtmlUrls } from "./html-urls.js";
+import { ImageExporter } from "../images.js";
 
 const HTML_EXTENSIONS = new Set([".html", ".htm"]);
 const HTML_MIMETYPES = new Set([
@@ -15,7 +23,13 @@ const HTML_MIMETYPES = new Set([
   "application/xhtml+xml",
 ]);
 
-function createTurndownService(options?: ConvertOptions): TurndownService {
+/** Paths of exported images by the data URI they replace */
+export type ExportedImages = ReadonlyMap<string, string>;
+
+function createTurndownService(
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): TurndownService {
   const td = new TurndownService({
     headingStyle: "atx",
     codeBlockStyle: "fenced",
@@ -63,44 +77,191 @@ function createTurndownService(options?: ConvertOptions): TurndownService {
     });
   }
 
+  // Link to exported images; added last so it takes precedence
+  if (exported?.size) {
+    td.addRule("exportedImage", {
+      filter(node) {
+        if (node.nodeName !== "IMG") return false;
+        const src = (node as HTMLImageElement).getAttribute("src") ?? "";
+        return exported.has(src);
+      },
+      replacement(_content, node) {
+        const el = node as HTMLImageElement;
+        const alt = el.getAttribute("alt") ?? "";
+        return `![${alt}](${exported.get(el.getAttribute("src")!)})`;
+      },
+    });
+  }
+
   return td;
 }
 
+/**
+ * Export the base64 `data:` images in `html`, returning their paths for
+ * `convertHtmlString` to link to. The HTML itself is left as is, so the
+ * paths are never resolved against the document URL.
+ */
+export async function exportDataUriImages(
+  html: string,
+  images: ImageExporter,
+): Promise<ExportedImages> {
+  const exported = new Map<string, string>();
+  if (!images.enabled) return exported;
+  const $ = cheerio.load(html);
+  for (const el of $("img[src^='data:']").toArray()) {
+    const src = $(el).attr("src")!;
+    const match = /^data:([^;,]+)(?:;[^;,]*)*;base64,(.*)$/s.exec(src);
+    if (!match || exported.has(src)) continue;
+    const bytes = Buffer.from(match[2], "base64");
+    const name = `image${exported.size + 1}`;
+    exported.set(src, await images.export(bytes, match[1].toLowerCase(), name));
+  }
+  return exported;
+}
+
+/**
+ * Convert an HTML document or fragment. Images whose data URI is in
+ * `exported` link to the exported path instead.
+ */
 export function convertHtmlString(
   html: string,
   options?: ConvertOptions,
+  exported?: ExportedImages,
 ): ConversionResult {
   const $ = cheerio.load(html);
 
   // Remove script and style elements before conversion
   $("script, style, noscript").remove();
+  rewriteHtmlUrls($, options);
 
-  const title = $("title").first().text().trim() || undefined;
+  const metadata = readHtmlMetadata($);
 
   // Get body content, or full document if no body
   const body = $("body").length > 0 ? $("body").html() : $.html();
-  if (!body) {
-    return { markdown: "", title };
+  const markdown = turndownHtml(body, options, exported);
+  return {
+    markdown,
+    title: metadata.title,
+    metadata,
+    sections: documentSections(markdown),
+  };
+}
+
+/** Title, language and the author/description/keywords `<meta>` tags */
+export function readHtmlMetadata($: CheerioAPI): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const meta = (name: string): string | undefined =>
+    $(`meta[name="${name}"]`).attr("content")?.trim() || undefined;
+
+  const title = $("title").first().text().trim();
+  if (title) metadata.title = title;
+  const author = meta("author");
+  if (author) metadata.author = author;
+  const description =
+    meta("description") ??
+    ($('meta[property="og:description"]').attr("content")?.trim() || undefined);
+  if (description) metadata.description = description;
+  const keywords = meta("keywords")
+    ?.split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  if (keywords?.length) metadata.keywords = keywords;
+  const language = $("html").attr("lang")?.trim();
+  if (language) metadata.language = language;
+  return metadata;
+}
+
+/**
+ * Convert a standalone web page. With `mainContent` set, only the region
+ * found by `extractMainContent` is converted; pages where no region stands
+ * out are converted whole.
+ */
+function convertHtmlPage(
+  html: string,
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): ConversionResult {
+  if (!options?.mainContent) {
+    return convertHtmlString(html, options, exported);
   }
 
-  const td = createTurndownService(options);
-  let markdown = td.turndown(body);
+  const $ = cheerio.load(html);
+  $("script, style, noscript").remove();
+  rewriteHtmlUrls($, options);
+  const metadata = readHtmlMetadata($);
+
+  const main = extractMainContent($);
+  if (!main) {
+    return convertHtmlString(html, options, exported);
+  }
+
+  const markdown = turndownHtml(main.html, options, exported);
+  if (main.byline && !metadata.author) metadata.author = main.byline;
+  return {
+    markdown,
+    title: metadata.title,
+    byline: main.byline,
+    published: main.published,
+    metadata,
+    sections: documentSections(markdown),
+  };
+}
+
+function turndownHtml(
+  html: string | null,
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): string {
+  if (!html) return "";
+
+  const td = createTurndownService(options, exported);
+  const markdown = td.turndown(html);
 
   // Normalize excessive blank lines
-  markdown = markdown.replace(/\n{3,}/g, "\n\n").trim();
+  return markdown.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** True when the stream info describes an HTML document */
+export function isHtmlStream(info: StreamInfo): boolean {
+  if (info.extension && HTML_EXTENSIONS.has(info.extension)) {
+    return true;
+  }
+  if (info.mimetype && HTML_MIMETYPES.has(info.mimetype)) {
+    return true;
+  }
+  return false;
+}
+
+/** Options with `url` defaulted to the document's own URL */
+export function withDocumentUrl(
+  options: ConvertOptions | undefined,
+  info: StreamInfo,
+): ConvertOptions | undefined {
+  const url = options?.url ?? info.url;
+  return url ? { ...options, url } : options;
+}
 
-  return { markdown, title };
+/**
+ * Decode HTML bytes using the charset hint, defaulting to UTF-8. An unknown
+ * charset falls back to UTF-8 with a `charset-fallback` warning.
+ */
+export function decodeHtml(
+  input: Buffer,
+  info: StreamInfo,
+  warnings: WarningCollector,
+): string {
+  const charset = info.charset ?? "utf-8";
+  if (iconv.encodingExists(charset)) return iconv.decode(input, charset);
+  warnings.warn(
+    "charset-fallback",
+    `Unknown charset "${charset}", decoded as UTF-8`,
+  );
+  return input.toString("utf-8");
 }
 
 export class HtmlConverter extends DocumentConverter {
   accepts(_input: Buffer, info: StreamInfo): boolean {
-    if (info.extension && HTML_EXTENSIONS.has(info.extension)) {
-      return true;
-    }
-    if (info.mimetype && HTML_MIMETYPES.has(info.mimetype)) {
-      return true;
-    }
-    return false;
+    return isHtmlStream(info);
   }
 
   async convert(
@@ -108,8 +269,15 @@ export class HtmlConverter extends DocumentConverter {
     info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const charset = info.charset ?? "utf-8";
-    const html = input.toString(charset as BufferEncoding);
-    return convertHtmlString(html, options);
+    const warnings = new WarningCollector(options);
+    const html = decodeHtml(input, info, warnings);
+    const exported = await exportDataUriImages(
+      html,
+      new ImageExporter(options),
+    );
+    return {
+      ...convertHtmlPage(html, withDocumentUrl(options, info), exported),
+      warnings: warnings.warnings,
+    };
   }
 }
@@ -0,0 +1,88 @@
+import type { CheerioAPI } from "cheerio";
+import type { ConvertOptions } from "../base-converter.js";
+
+/** Query parameters that only serve click tracking */
+const TRACKING_PARAMS =
+  /^(utm_[a-z_]+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|_gl|_hsenc|_hsmi|mkt_tok|oly_anon_id|oly_enc_id|vero_id|ref_src)$/i;
+
+/** Used to parse relative URLs when no document URL is known */
+const PLACEHOLDER_BASE = "http://placeholder.invalid";
+
+/**
+ * Rewrite `a[href]` and `img[src]` in place: resolve them against
+ * `<base href>` and `options.url` (unless `resolveLinks` is false), and
+ * drop tracking query parameters when `stripTrackingParams` is set.
+ * Fragment-only links and non-http schemes are left alone.
+ */
+export function rewriteHtmlUrls($: CheerioAPI, options?: ConvertOptions): void {
+  const resolve = options?.resolveLinks ?? true;
+  const strip = options?.stripTrackingParams ?? false;
+  if (!resolve && !strip) return;
+
+  const base = resolve ? documentBase($, options?.url) : undefined;
+  if (!base && !strip) return;
+
+  for (const [selector, attr] of [
+    ["a[href]", "href"],
+    ["img[src]", "src"],
+  ] as const) {
+    $(selector).each((_i, el) => {
+      const $el = $(el);
+      const value = $el.attr(attr);
+      if (value === undefined) return;
+      const rewritten = rewriteUrl(value.trim(), base, strip);
+      if (rewritten !== value) $el.attr(attr, rewritten);
+    });
+  }
+}
+
+function documentBase($: CheerioAPI, url?: string): string | undefined {
+  const baseHref = $("base[href]").first().attr("href")?.trim();
+  if (baseHref) {
+    try {
+      return new URL(baseHref, url).href;
+    } catch {
+      // Relative <base> without a document URL cannot be resolved
+    }
+  }
+  if (!url) return undefined;
+  try {
+    return new URL(url).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function rewriteUrl(
+  value: string,
+  base: string | undefined,
+  strip: boolean,
+): string {
+  if (!value || value.startsWith("#")) return value;
+
+  // Leave other schemes (data:, mailto:, javascript:, ...) untouched
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value)?.[1]?.toLowerCase();
+  if (scheme && scheme !== "http" && scheme !== "https") return value;
+
+  let url: URL;
+  try {
+    url = new URL(value, base ?? PLACEHOLDER_BASE);
+  } catch {
+    return value;
+  }
+
+  if (strip) {
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+    }
+  }
+
+  if (base || scheme) return url.href;
+
+  // Still relative: keep it relative, in the same form as written
+  if (!strip) return value;
+  if (value.startsWith("//")) return url.href.slice(url.protocol.length);
+  if (value.startsWith("/")) return `${url.pathname}${url.search}${url.hash}`;
+  const [pathPart] = value.split(/[?#]/);
+  return `${pathPart}${url.search}${url.hash}`;
+}
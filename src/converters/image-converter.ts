@@ -1,18 +1,19 @@
 import ExifReader from "exif-reader";
 import {
   DocumentConverter,
+  documentSections,
+  WarningCollector,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
 } from "../base-converter.js";
-import {
-  detectTables,
-  type PositionedWord,
-} from "./table-detector.js";
+import { performOcr } from "./ocr.js";
 
 const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png"]);
 const IMAGE_MIMETYPES = new Set(["image/jpeg", "image/png"]);
 
+const PNG_SIGNATURE = Buffer.from("\x89PNG\r\n\x1a\n", "latin1");
+
 export class ImageConverter extends DocumentConverter {
   accepts(_input: Buffer, info: StreamInfo): boolean {
     if (info.extension && IMAGE_EXTENSIONS.has(info.extension)) return true;
@@ -22,13 +23,14 @@ export class ImageConverter extends DocumentConverter {
 
   async convert(
     input: Buffer,
-    info: StreamInfo,
+    _info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
     const parts: string[] = [];
+    const warnings = new WarningCollector(options);
 
     // Extract EXIF metadata
-    const metadata = extractExifMetadata(input);
+    const metadata = extractExifMetadata(input, warnings);
     if (metadata.length > 0) {
       parts.push("## Image Metadata\n");
       for (const [key, value] of metadata) {
@@ -38,7 +40,12 @@ export class ImageConverter extends DocumentConverter {
 
     // OCR + structure detection (opt-in)
     if (options?.ocr) {
-      const ocrResult = await performOcr(input, info);
+      const ocrResult = await performOcr(
+        input,
+        warnings,
+        { unit: "document" },
+        options.signal,
+      );
       if (ocrResult) {
         parts.push("");
         parts.push("## Extracted Text\n");
@@ -46,16 +53,28 @@ export class ImageConverter extends DocumentConverter {
       }
     }
 
-    return { markdown: parts.join("\n").trim() };
+    const markdown = parts.join("\n").trim();
+    return {
+      markdown,
+      metadata: metadata.length > 0 ? { exif: Object.fromEntries(metadata) } : {},
+      sections: documentSections(markdown),
+      warnings: warnings.warnings,
+    };
   }
 }
 
-function extractExifMetadata(input: Buffer): [string, string][] {
+function extractExifMetadata(
+  input: Buffer,
+  warnings: WarningCollector,
+): [string, string][] {
   const entries: [string, string][] = [];
+  const exif = findExifBlock(input);
+  if (!exif) return entries;
 
   try {
-    const tags = ExifReader(input);
-    if (!tags) return entries;
+    const parsed = ExifReader(exif);
+    // Tags are grouped by IFD; the labels below look them up by name only
+    const tags = { ...parsed.Image, ...parsed.Photo, ...parsed.GPSInfo };
 
     const mappings: [string, string[]][] = [
       ["Image Size", ["ImageWidth", "ImageHeight"]],
@@ -92,8 +111,10 @@ function extractExifMetadata(input: Buffer): [string, string][] {
         }
       }
     }
-  } catch {
-    // EXIF parsing failed — not all images have EXIF data
+  } catch (err) {
+    warnings.warn("exif-unreadable", "Could not read EXIF metadata", {
+      cause: err,
+    });
   }
 
   return entries;
@@ -105,46 +126,42 @@ function getTagValue(tags: any, key: string): string | undefined {
   if (tag === undefined || tag === null) return undefined;
   if (typeof tag === "string") return tag;
   if (typeof tag === "number") return String(tag);
+  if (tag instanceof Date) return tag.toISOString();
   if (typeof tag === "object" && "description" in tag) return String(tag.description);
   if (typeof tag === "object" && "value" in tag) return String(tag.value);
   if (Array.isArray(tag)) return tag.join(", ");
   return String(tag);
 }
 
-async function performOcr(
-  input: Buffer,
-  _info: StreamInfo,
-): Promise<string | null> {
-  try {
-    // Dynamic import to avoid loading tesseract.js when OCR is not used
-    const Tesseract = await import("tesseract.js");
-    const result = await Tesseract.recognize(input, "eng");
-    const data = result.data as any;
-
-    if (!data.words || data.words.length === 0) return null;
-
-    // Map OCR words to PositionedWord for table detection
-    const words: PositionedWord[] = (data.words as any[])
-      .filter((w) => w.text.trim())
-      .map((w) => ({
-        text: w.text.trim(),
-        x0: w.bbox.x0,
-        x1: w.bbox.x1,
-        top: w.bbox.y0,
-      }));
-
-    if (words.length === 0) return null;
-
-    // Estimate page width from rightmost word
-    const pageWidth = Math.max(...words.map((w) => w.x1)) + 10;
-
-    // Try table detection
-    const tableResult = detectTables(words, { pageWidth });
-    if (tableResult) return tableResult;
-
-    // Fall back to plain text from OCR
-    return data.text?.trim() || null;
-  } catch {
+/**
+ * The EXIF block of a JPEG (APP1 segment) or PNG (eXIf chunk), or null
+ * when the image has none.
+ */
+function findExifBlock(input: Buffer): Buffer | null {
+  if (input.length > 4 && input.readUInt16BE(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 4 <= input.length && input[offset] === 0xff) {
+      const marker = input.readUInt16BE(offset);
+      // Start of scan: image data follows, no more metadata segments
+      if (marker === 0xffda) break;
+      const length = input.readUInt16BE(offset + 2);
+      const body = input.subarray(offset + 4, offset + 2 + length);
+      const isExif = body.subarray(0, 6).toString("latin1") === "Exif\0\0";
+      if (marker === 0xffe1 && isExif) return body;
+      offset += 2 + length;
+    }
     return null;
   }
+
+  if (input.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    let offset = 8;
+    while (offset + 8 <= input.length) {
+      const length = input.readUInt32BE(offset);
+      const type = input.subarray(offset + 4, offset + 8).toString("latin1");
+      if (type === "eXIf") return input.subarray(offset + 8, offset + 8 + length);
+      if (type === "IEND") break;
+      offset += 12 + length;
+    }
+  }
+  return null;
 }
@@ -1,5 +1,8 @@
 export { PlainTextConverter } from "./plain-text-converter.js";
 export { HtmlConverter, convertHtmlString } from "./html-converter.js";
+export { WikipediaConverter } from "./wikipedia-converter.js";
+export { StackExchangeConverter } from "./stackexchange-converter.js";
+export { GitHubIssueConverter } from "./github-issue-converter.js";
 export { CsvConverter } from "./csv-converter.js";
 export { DocxConverter } from "./docx-converter.js";
 export { XlsxConverter } from "./xlsx-converter.js";
@@ -7,5 +10,13 @@ export { PptxConverter } from "./pptx-converter.js";
 export { PdfConverter } from "./pdf-converter.js";
 export { ImageConverter } from "./image-converter.js";
 export { XmlRssConverter } from "./xml-rss-converter.js";
-export { detectTables, mergeMasterFormatNumbering } from "./table-detector.js";
-export type { PositionedWord, TableDetectorOptions } from "./table-detector.js";
+export {
+  detectTables,
+  detectTableRegions,
+  mergeMasterFormatNumbering,
+} from "./table-detector.js";
+export type {
+  PositionedWord,
+  TableDetectorOptions,
+  TableRegion,
+} from "./table-detector.js";
@@ -0,0 +1,264 @@
+import type { CheerioAPI, Cheerio } from "cheerio";
+import { isTag, type AnyNode, type Element } from "domhandler";
+
+export interface MainContent {
+  /** HTML of the winning region */
+  html: string;
+  byline?: string;
+  published?: string;
+}
+
+/** Class/id fragments of page chrome rather than content */
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|ad-break|agegate|pagination|pager|popup|promo|yom-remote/i;
+
+/** Class/id fragments that rescue an element from UNLIKELY_CANDIDATES */
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+const POSITIVE_CLASS =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+
+const NEGATIVE_CLASS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+/** Elements that are never main content */
+const CHROME_SELECTOR = [
+  "nav",
+  "aside",
+  "footer",
+  "form",
+  "dialog",
+  "iframe",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[role=complementary]",
+  "[role=dialog]",
+  "[aria-hidden=true]",
+  "[hidden]",
+].join(", ");
+
+const SCORABLE_SELECTOR = "p, pre, td, blockquote, section, h2, h3";
+
+/** Below this many characters of text the page is left whole */
+const MIN_CONTENT_LENGTH = 140;
+
+/**
+ * Readability-style main-content detection. Scores the containers of
+ * paragraphs by text length, comma count, link density, tag (`article`
+ * and `main` start ahead) and class/id hints, and returns the HTML of the
+ * best-scoring subtree (plus qualifying siblings). Pages with no scorable
+ * paragraphs fall back to their first semantic container. Mutates `$`:
+ * page chrome is removed. Returns null when no region carries enough
+ * text, so callers can fall back to the full body.
+ */
+export function extractMainContent($: CheerioAPI): MainContent | null {
+  const byline = findByline($);
+  const published = findPublishedDate($);
+
+  const body: Cheerio<AnyNode> = $("body").length > 0 ? $("body") : $.root();
+  body.find(CHROME_SELECTOR).remove();
+  removeUnlikelyCandidates($, body);
+
+  const scores = new Map<Element, number>();
+  const initialize = (el: Element): void => {
+    if (!scores.has(el)) scores.set(el, baseScore($, el));
+  };
+
+  body.find(SCORABLE_SELECTOR).each((_i, el) => {
+    const text = normalizeText($(el).text());
+    if (text.length < 25) return;
+
+    // One point for the paragraph, one per comma, one per 100 chars (max 3)
+    const score =
+      1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = el.parent;
+    if (!parent || !isTag(parent)) return;
+    initialize(parent);
+    scores.set(parent, scores.get(parent)! + score);
+
+    const grandparent = parent.parent;
+    if (grandparent && isTag(grandparent)) {
+      initialize(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + score / 2);
+    }
+  });
+
+  let top: Element | null = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  }
+
+  // Nothing scored: trust the page's own markup of its main content
+  const semantic = body.find("article, main, [role=main]").first();
+  if (!top && semantic.length > 0) {
+    top = semantic.get(0)!;
+  }
+  if (!top) return null;
+
+  const parts = collectWithSiblings($, top, topScore, scores);
+  const html = parts.map((el) => $.html(el)).join("\n");
+  const textLength = parts.reduce(
+    (sum, el) => sum + normalizeText($(el).text()).length,
+    0,
+  );
+  if (textLength < MIN_CONTENT_LENGTH) return null;
+
+  return { html, byline, published };
+}
+
+function removeUnlikelyCandidates($: CheerioAPI, root: Cheerio<AnyNode>): void {
+  root.find("*").each((_i, el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === "body" || tag === "article" || tag === "main") return;
+    const $el = $(el);
+    const matchString = `${$el.attr("class") ?? ""} ${$el.attr("id") ?? ""}`;
+    if (
+      UNLIKELY_CANDIDATES.test(matchString) &&
+      !MAYBE_CANDIDATE.test(matchString) &&
+      $el.closest("article, main").length === 0
+    ) {
+      $el.remove();
+    }
+  });
+}
+
+function baseScore($: CheerioAPI, el: Element): number {
+  let score = 0;
+  switch (el.tagName.toLowerCase()) {
+    case "article":
+    case "main":
+      score += 10;
+      break;
+    case "div":
+    case "section":
+      score += 5;
+      break;
+    case "pre":
+    case "td":
+    case "blockquote":
+      score += 3;
+      break;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+      score -= 3;
+      break;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      score -= 5;
+      break;
+  }
+  if ($(el).attr("role") === "main") score += 10;
+  return score + classWeight($(el));
+}
+
+function classWeight($el: Cheerio<Element>): number {
+  let weight = 0;
+  for (const value of [$el.attr("class"), $el.attr("id")]) {
+    if (!value) continue;
+    if (NEGATIVE_CLASS.test(value)) weight -= 25;
+    if (POSITIVE_CLASS.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function linkDensity($: CheerioAPI, $el: Cheerio<Element>): number {
+  const textLength = normalizeText($el.text()).length;
+  if (textLength === 0) return 0;
+  let linkLength = 0;
+  $el.find("a").each((_i, a) => {
+    linkLength += normalizeText($(a).text()).length;
+  });
+  return linkLength / textLength;
+}
+
+/**
+ * Siblings of the winner that score well, or that are prose paragraphs
+ * with few links, are part of the same content.
+ */
+function collectWithSiblings(
+  $: CheerioAPI,
+  top: Element,
+  topScore: number,
+  scores: Map<Element, number>,
+): Element[] {
+  const parent = top.parent;
+  if (!parent || !isTag(parent)) return [top];
+
+  const threshold = Math.max(10, topScore * 0.2);
+  const parts: Element[] = [];
+  for (const sibling of $(parent).children().toArray()) {
+    if (sibling === top) {
+      parts.push(sibling);
+      continue;
+    }
+    const score = scores.get(sibling);
+    if (score !== undefined && score >= threshold) {
+      parts.push(sibling);
+      continue;
+    }
+    if (sibling.tagName.toLowerCase() === "p") {
+      const $p = $(sibling);
+      const text = normalizeText($p.text());
+      const density = linkDensity($, $p);
+      if (
+        (text.length > 80 && density < 0.25) ||
+        (text.length > 0 && density === 0 && /\.( |$)/.test(text))
+      ) {
+        parts.push(sibling);
+      }
+    }
+  }
+  return parts;
+}
+
+function findByline($: CheerioAPI): string | undefined {
+  const meta =
+    $('meta[name="author"]').attr("content") ??
+    $('meta[property="article:author"]').attr("content");
+  if (meta?.trim() && !/^https?:/i.test(meta)) return meta.trim();
+
+  // Collect every author element, preferring their name sub-elements
+  const names: string[] = [];
+  $('[itemprop="author"], [rel="author"], .byline, .author').each((_i, el) => {
+    const $el = $(el);
+    const nameEl = $el.find('[itemprop="name"]').first();
+    const text = normalizeText((nameEl.length > 0 ? nameEl : $el).text());
+    if (text && text.length < 100 && !names.includes(text)) names.push(text);
+  });
+  return names.length > 0 ? names.join(", ") : undefined;
+}
+
+function findPublishedDate($: CheerioAPI): string | undefined {
+  const meta =
+    $('meta[property="article:published_time"]').attr("content") ??
+    $('meta[name="date"]').attr("content") ??
+    $('meta[itemprop="datePublished"]').attr("content");
+  if (meta?.trim()) return meta.trim();
+
+  const time =
+    $('[itemprop="datePublished"]').attr("datetime") ??
+    $("article time[datetime], time[datetime]").first().attr("datetime");
+  return time?.trim() || undefined;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
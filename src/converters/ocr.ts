@@ -0,0 +1,72 @@
+import {
+  throwIfAborted,
+  type SourceLocation,
+  type WarningCollector,
+} from "../base-converter.js";
+import {
+  detectTables,
+  type PositionedWord,
+} from "./table-detector.js";
+import type { Page, Word } from "tesseract.js";
+
+/**
+ * OCR an image (PNG/JPEG bytes) with tesseract.js and return Markdown: a
+ * table when the word boxes line up into one, the recognized text
+ * otherwise. Returns null, and reports why, when nothing is recognized or
+ * OCR fails.
+ */
+export async function performOcr(
+  input: Buffer,
+  warnings: WarningCollector,
+  location: SourceLocation,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  throwIfAborted(signal);
+  let page: Page;
+  try {
+    // Dynamic import to avoid loading tesseract.js when OCR is not used
+    const Tesseract = await import("tesseract.js");
+    const worker = await Tesseract.createWorker("eng");
+    try {
+      // Word boxes are only returned with the block output
+      page = (await worker.recognize(input, {}, { blocks: true })).data;
+    } finally {
+      await worker.terminate();
+    }
+  } catch (err) {
+    warnings.warn("ocr-failed", "OCR failed", { location, cause: err });
+    return null;
+  }
+
+  // Map OCR words to PositionedWord for table detection
+  const words: PositionedWord[] = ocrWords(page)
+    .filter((w) => w.text.trim())
+    .map((w) => ({
+      text: w.text.trim(),
+      x0: w.bbox.x0,
+      x1: w.bbox.x1,
+      top: w.bbox.y0,
+    }));
+
+  // Estimate page width from rightmost word
+  const pageWidth = Math.max(...words.map((w) => w.x1)) + 10;
+
+  // Try table detection, falling back to plain text from OCR
+  const markdown =
+    (words.length > 0 && detectTables(words, { pageWidth })) ||
+    page.text?.trim();
+  if (!markdown) {
+    warnings.warn("ocr-empty", "OCR recognized no text", { location });
+    return null;
+  }
+  return markdown;
+}
+
+/** Words of all blocks, paragraphs and lines, in reading order */
+function ocrWords(page: Page): Word[] {
+  return (page.blocks ?? []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) =>
+      paragraph.lines.flatMap((line) => line.words),
+    ),
+  );
+}
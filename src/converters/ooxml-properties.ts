@@ -0,0 +1,65 @@
+import type JSZip from "jszip";
+import { XMLParser } from "fast-xml-parser";
+import type { DocumentMetadata, WarningCollector } from "../base-converter.js";
+
+const parser = new XMLParser({ ignoreAttributes: true, removeNSPrefix: true });
+
+/**
+ * Title, author, dates and the other Dublin Core fields from the
+ * `docProps/core.xml` part shared by DOCX, PPTX and XLSX packages.
+ */
+export async function readCoreProperties(
+  zip: JSZip,
+  warnings: WarningCollector,
+): Promise<DocumentMetadata> {
+  const xml = await zip.file("docProps/core.xml")?.async("string");
+  if (!xml) return {};
+
+  let props: any;
+  try {
+    props = parser.parse(xml)?.coreProperties;
+  } catch (err) {
+    warnings.warn("metadata-unreadable", "Could not read docProps/core.xml", {
+      cause: err,
+    });
+    return {};
+  }
+  if (!props) return {};
+
+  const text = (key: string): string | undefined => {
+    const value = props[key];
+    if (value === undefined || value === null || typeof value === "object") {
+      return undefined;
+    }
+    return String(value).trim() || undefined;
+  };
+  const date = (key: string): string | undefined => {
+    const value = text(key);
+    const parsed = value ? new Date(value) : undefined;
+    return parsed && !Number.isNaN(parsed.getTime())
+      ? parsed.toISOString()
+      : undefined;
+  };
+
+  const metadata: DocumentMetadata = {};
+  const title = text("title");
+  if (title) metadata.title = title;
+  const author = text("creator");
+  if (author) metadata.author = author;
+  const subject = text("subject");
+  if (subject) metadata.subject = subject;
+  const description = text("description");
+  if (description) metadata.description = description;
+  const keywords = text("keywords")
+    ?.split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+  if (keywords?.length) metadata.keywords = keywords;
+  const language = text("language");
+  if (language) metadata.language = language;
+  const created = date("created");
+  if (created) metadata.created = created;
+  const modified = date("modified");
+  if (modified) metadata.modified = modified;
+  return metadata;
+}
@@ -1,4 +1,9 @@
-import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import {
+  getDocument,
+  ImageKind,
+  OPS,
+  PDFDateString,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
 
 interface TextItem {
   str: string;
@@ -20,22 +25,60 @@ interface LinkAnnotation {
   rect: number[]; // [x0, y0, x1, y1] in PDF bottom-origin coords
 }
 
+/** A text item with its box in top-origin page coordinates */
+interface PlacedItem extends LayoutItem {
+  item: TextItem;
+}
+
+interface OutlineHeading {
+  /** Normalized bookmark title, see normalizeHeading */
+  title: string;
+  level: number;
+  /** Page the bookmark points at, when its destination resolves */
+  pageNum?: number;
+}
+
 import {
   DocumentConverter,
+  joinChunks,
+  WarningCollector,
+  throwIfAborted,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type DocumentMetadata,
+  type SourceLocation,
+  type ConversionProgress,
 } from "../base-converter.js";
 import {
-  detectTables,
+  detectTableRegions,
   mergeMasterFormatNumbering,
   type PositionedWord,
+  type TableRegion,
 } from "./table-detector.js";
 import { convertHtmlString } from "./html-converter.js";
+import {
+  orderByColumns,
+  splitColumns,
+  type LayoutItem,
+} from "./column-layout.js";
+import { performOcr } from "./ocr.js";
+import { checkLimit } from "../limits.js";
+import { ImageExporter } from "../images.js";
 
 const PDF_EXTENSIONS = new Set([".pdf"]);
 const PDF_MIMETYPES = new Set(["application/pdf", "application/x-pdf"]);
 
+/** Pages with fewer characters of text than this are treated as scanned */
+const MIN_TEXT_CHARS = 20;
+
+/** Render scanned pages at 300 DPI for OCR */
+const OCR_RENDER_SCALE = 300 / 72;
+
+/** Info dictionary values PDF generators write when nothing was set */
+const PLACEHOLDER_METADATA = /^\(?(anonymous|untitled|unspecified|unknown)\)?$/i;
+
 export class PdfConverter extends DocumentConverter {
   accepts(_input: Buffer, info: StreamInfo): boolean {
     if (info.extension && PDF_EXTENSIONS.has(info.extension)) return true;
@@ -48,66 +91,514 @@ export class PdfConverter extends DocumentConverter {
     _info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const data = new Uint8Array(input);
-    const doc = await getDocument({ data, useSystemFonts: true }).promise;
+    const doc = await loadDocument(input);
+    const warnings = new WarningCollector(options);
+    const stopWatching = destroyOnAbort(doc, options?.signal);
+    let converted = 0;
+    try {
+      const chunks: ConversionChunk[] = [];
+      const pages = renderPages(doc, warnings, options);
+      for await (const page of untilAborted(pages, options?.signal)) {
+        chunks.push({
+          markdown: postProcess(page.markdown),
+          location: { unit: "page", index: page.pageNum },
+        });
+        converted = page.pageNum;
+      }
+
+      const { markdown, sections } = joinChunks(chunks);
+      const metadata = await readMetadata(doc, warnings);
+      return {
+        markdown,
+        title: metadata.title,
+        metadata,
+        sections,
+        warnings: warnings.warnings,
+      };
+    } catch (err) {
+      throwIfAborted(options?.signal, pageProgress(doc, converted));
+      throw err;
+    } finally {
+      stopWatching();
+      await doc.destroy();
+    }
+  }
+
+  async *convertIter(
+    input: Buffer,
+    _info: StreamInfo,
+    options?: ConvertOptions,
+  ): AsyncGenerator<ConversionChunk> {
+    const doc = await loadDocument(input);
+    const warnings = new WarningCollector(options);
+    const stopWatching = destroyOnAbort(doc, options?.signal);
+    let converted = 0;
+    try {
+      const pages = renderPages(doc, warnings, options);
+      for await (const page of untilAborted(pages, options?.signal)) {
+        const markdown = postProcess(page.markdown);
+        converted = page.pageNum;
+        if (markdown) {
+          yield { markdown, location: { unit: "page", index: page.pageNum } };
+        }
+      }
+    } catch (err) {
+      throwIfAborted(options?.signal, pageProgress(doc, converted));
+      throw err;
+    } finally {
+      stopWatching();
+      await doc.destroy();
+    }
+  }
+}
 
-    const chunks: string[] = [];
+async function loadDocument(input: Buffer) {
+  const data = new Uint8Array(input);
+  return getDocument({ data, useSystemFonts: true }).promise;
+}
 
-    for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
-      const page = await doc.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      const viewport = page.getViewport({ scale: 1.0 });
+type PdfDocument = Awaited<ReturnType<typeof loadDocument>>;
+
+/**
+ * Destroy the document as soon as the signal fires, so that pdf.js calls
+ * stuck on a pathological page reject instead of running on. Returns a
+ * function that stops watching.
+ */
+function destroyOnAbort(
+  doc: PdfDocument,
+  signal: AbortSignal | undefined,
+): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => void doc.destroy();
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
 
-      // Build positioned words from text items
-      const words: PositionedWord[] = [];
-      for (const item of textContent.items) {
-        if (!("str" in item)) continue;
-        const textItem = item as TextItem;
-        if (!textItem.str.trim()) continue;
+/**
+ * Iterate `pages` until the signal fires. pdf.js calls that are pending
+ * when the document is destroyed never settle, so each wait for the next
+ * page is raced against the abort.
+ */
+async function* untilAborted<T>(
+  pages: AsyncGenerator<T>,
+  signal: AbortSignal | undefined,
+): AsyncGenerator<T> {
+  if (!signal) {
+    yield* pages;
+    return;
+  }
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    while (true) {
+      const next = pages.next();
+      // Abandoned when the abort wins the race
+      next.catch(() => {});
+      const result = await Promise.race([next, aborted]);
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
 
-        const tx = textItem.transform;
-        const x0 = tx[4];
-        const top = viewport.height - tx[5];
-        const x1 = x0 + textItem.width;
+function pageProgress(
+  doc: PdfDocument,
+  converted: number,
+): ConversionProgress {
+  return { unit: "page", current: converted, total: doc.numPages };
+}
 
-        words.push({ text: textItem.str.trim(), x0, x1, top });
+async function* renderPages(
+  doc: PdfDocument,
+  warnings: WarningCollector,
+  options?: ConvertOptions,
+): AsyncGenerator<{ pageNum: number; markdown: string }> {
+  checkLimit(options, "maxPages", doc.numPages);
+  const outline = await readOutline(doc, warnings);
+  const images = new ImageExporter(options);
+
+  for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
+    const progress = pageProgress(doc, pageNum - 1);
+    throwIfAborted(options?.signal, progress);
+    options?.onProgress?.(progress);
+    const page = await doc.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    const viewport = page.getViewport({ scale: 1.0 });
+    const location: SourceLocation = { unit: "page", index: pageNum };
+    const imageLinks = images.enabled
+      ? await exportPageImages(doc, page, images, warnings, location)
+      : [];
+
+    // Build positioned words from text items
+    const placed: PlacedItem[] = [];
+    for (const item of textContent.items) {
+      if (!("str" in item)) continue;
+      const textItem = item as TextItem;
+      if (!textItem.str.trim()) continue;
+
+      const tx = textItem.transform;
+      const x0 = tx[4];
+      const top = viewport.height - tx[5];
+      const x1 = x0 + textItem.width;
+
+      placed.push({ str: textItem.str, x0, x1, top, item: textItem });
+    }
+    const words = placed.map(toWord);
+
+    // Scanned pages have no text layer to speak of: OCR a rendering
+    if (options?.ocr && textLength(words) < MIN_TEXT_CHARS) {
+      const image = await renderPageImage(doc, page, warnings, location);
+      const ocrText = image
+        ? await performOcr(image, warnings, location, options?.signal)
+        : null;
+      if (ocrText) {
+        const markdown = [ocrText, ...imageLinks].join("\n\n");
+        yield { pageNum, markdown: withPageMarker(markdown, pageNum, options) };
+        continue;
       }
+    }
 
-      // Try table detection
-      const tableResult = detectTables(words, { pageWidth: viewport.width });
-
-      if (tableResult) {
-        chunks.push(tableResult);
-      } else {
-        const annotations = await extractLinkAnnotations(page, viewport.height);
-        const html = buildPageHtml(
-          textContent.items as TextItem[],
-          (textContent.styles ?? {}) as Record<string, TextStyle>,
-          annotations,
-          viewport.height,
-        );
+    const items = textContent.items as TextItem[];
+    const styles = (textContent.styles ?? {}) as Record<string, TextStyle>;
+    const annotations = await extractLinkAnnotations(page, warnings, location);
+    const layout: PageLayout = {
+      styles,
+      annotations,
+      viewportHeight: viewport.height,
+      detectColumns: options?.detectColumns !== false,
+      outline,
+      pageNum,
+    };
+
+    // Try table detection within each column, so the lines of side-by-side
+    // text columns are not mistaken for table rows; everything outside the
+    // tables keeps the rich heading/list pipeline and is merged in reading
+    // order
+    const columns = layout.detectColumns ? splitColumns(placed) : [placed];
+    const tables = columns.map((column) =>
+      detectTableRegions(column.map(toWord), { pageWidth: viewport.width }),
+    );
+    const hasTables = tables.some(Boolean);
+
+    // Pages without tables are rendered whole, so paragraphs run on from
+    // one column into the next
+    const blocks = hasTables
+      ? columns.map((column) => column.map((placedItem) => placedItem.item))
+      : [items];
+
+    // Headings are judged against the whole page's body text, not the
+    // (possibly one-line) segment between two tables
+    const bodyFontSize = hasTables
+      ? estimateBodyFontSize(buildLines(items, layout))
+      : undefined;
+
+    const parts: string[] = [];
+    for (let b = 0; b < blocks.length; b++) {
+      const regions = tables[b];
+      const segments = regions
+        ? splitAroundTables(blocks[b], regions, viewport.height)
+        : [blocks[b]];
+      for (let i = 0; i < segments.length; i++) {
+        const html = buildPageHtml(segments[i], layout, bodyFontSize);
         const { markdown } = convertHtmlString(html, options);
-        chunks.push(markdown);
+        if (markdown) parts.push(markdown);
+        if (regions && i < regions.length) parts.push(regions[i].markdown);
       }
     }
+    parts.push(...imageLinks);
+    const markdown = parts.join("\n\n");
+    yield { pageNum, markdown: withPageMarker(markdown, pageNum, options) };
+  }
+  options?.onProgress?.(pageProgress(doc, doc.numPages));
+}
 
-    await doc.destroy();
+function withPageMarker(
+  markdown: string,
+  pageNum: number,
+  options?: ConvertOptions,
+): string {
+  if (!options?.pageMarkers) return markdown;
+  return `<!-- page ${pageNum} -->\n\n${markdown}`;
+}
 
-    let markdown = chunks.join("\n\n");
+function textLength(words: PositionedWord[]): number {
+  return words.reduce((sum, w) => sum + w.text.replace(/\s/g, "").length, 0);
+}
 
-    // Post-process: merge MasterFormat partial numbering
-    markdown = mergeMasterFormatNumbering(markdown);
+/**
+ * Render a page to PNG with pdf.js's canvas backend (@napi-rs/canvas in
+ * Node). Returns null when the page cannot be rendered.
+ */
+async function renderPageImage(
+  doc: any,
+  page: any,
+  warnings: WarningCollector,
+  location: SourceLocation,
+): Promise<Buffer | null> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const factory = doc.canvasFactory;
+  let target: { canvas: any; context: any } | undefined;
+  try {
+    target = factory.create(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height),
+    );
+    await page.render({
+      canvasContext: target!.context,
+      canvas: target!.canvas,
+      viewport,
+    }).promise;
+    return target!.canvas.toBuffer("image/png");
+  } catch (err) {
+    warnings.warn("page-render-failed", "Could not render page for OCR", {
+      location,
+      cause: err,
+    });
+    return null;
+  } finally {
+    if (target) factory.destroy(target);
+  }
+}
 
-    // Normalize whitespace
-    markdown = markdown.replace(/\n{3,}/g, "\n\n").trim();
+/**
+ * Export the images painted on a page as PNG, in drawing order, and
+ * return links to them. Images that cannot be decoded are reported and
+ * skipped.
+ */
+async function exportPageImages(
+  doc: any,
+  page: any,
+  images: ImageExporter,
+  warnings: WarningCollector,
+  location: SourceLocation,
+): Promise<string[]> {
+  const ops = await page.getOperatorList();
+  const painted = new Set<string>();
+  const links: string[] = [];
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    let image: any;
+    if (ops.fnArray[i] === OPS.paintImageXObject) {
+      const name: string = ops.argsArray[i][0];
+      if (painted.has(name)) continue;
+      painted.add(name);
+      // Images shared between pages live in the document-wide store
+      const objs = name.startsWith("g_") ? page.commonObjs : page.objs;
+      image = await new Promise((resolve) => objs.get(name, resolve));
+    } else if (ops.fnArray[i] === OPS.paintInlineImageXObject) {
+      image = ops.argsArray[i][0];
+    } else {
+      continue;
+    }
 
-    return { markdown };
+    let png: Buffer;
+    try {
+      png = encodePng(doc, image);
+    } catch (err) {
+      warnings.warn("image-unreadable", "Could not decode an embedded image", {
+        location,
+        cause: err,
+      });
+      continue;
+    }
+    const name = `page${location.index}-image${links.length + 1}`;
+    links.push(`![](${await images.export(png, "image/png", name)})`);
+  }
+  return links;
+}
+
+/** Encode a decoded pdf.js image as PNG with its canvas backend */
+function encodePng(doc: any, image: any): Buffer {
+  const { width, height, kind, data } = image ?? {};
+  if (!data) throw new Error("Image has no decoded data");
+  const factory = doc.canvasFactory;
+  const target = factory.create(width, height);
+  try {
+    const imageData = target.context.createImageData(width, height);
+    const rgba: Uint8ClampedArray = imageData.data;
+    if (kind === ImageKind.RGBA_32BPP) {
+      rgba.set(data.subarray(0, rgba.length));
+    } else if (kind === ImageKind.RGB_24BPP) {
+      for (let src = 0, dst = 0; dst < rgba.length; src += 3, dst += 4) {
+        rgba[dst] = data[src];
+        rgba[dst + 1] = data[src + 1];
+        rgba[dst + 2] = data[src + 2];
+        rgba[dst + 3] = 255;
+      }
+    } else if (kind === ImageKind.GRAYSCALE_1BPP) {
+      // Rows are padded to whole bytes; a set bit is white
+      const rowBytes = Math.ceil(width / 8);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+          const dst = (y * width + x) * 4;
+          rgba.fill(bit ? 255 : 0, dst, dst + 3);
+          rgba[dst + 3] = 255;
+        }
+      }
+    } else {
+      throw new Error(`Unsupported image kind ${kind}`);
+    }
+    target.context.putImageData(imageData, 0, 0);
+    return target.canvas.toBuffer("image/png");
+  } finally {
+    factory.destroy(target);
   }
 }
 
+function toWord(placed: PlacedItem): PositionedWord {
+  const { str, x0, x1, top } = placed;
+  return { text: str.trim(), x0, x1, top };
+}
+
+/**
+ * Split text items into the prose segments before, between and after the
+ * table regions (sorted top to bottom), dropping the items that belong to
+ * a table. Returns one more segment than there are regions.
+ */
+function splitAroundTables(
+  items: TextItem[],
+  regions: TableRegion[],
+  viewportHeight: number,
+): TextItem[][] {
+  const segments: TextItem[][] = regions.map(() => []);
+  segments.push([]);
+
+  for (const item of items) {
+    if (!("str" in item)) continue;
+    const top = viewportHeight - item.transform[5];
+    let segment = 0;
+    let inTable = false;
+    for (const region of regions) {
+      if (top >= region.top - 0.5 && top <= region.bottom + 0.5) {
+        inTable = true;
+        break;
+      }
+      if (top > region.bottom) segment++;
+    }
+    if (!inTable) segments[segment].push(item);
+  }
+
+  return segments;
+}
+
+/**
+ * Flatten the document outline (bookmarks) into headings, the outline
+ * depth giving the heading level.
+ */
+async function readOutline(
+  doc: PdfDocument,
+  warnings: WarningCollector,
+): Promise<OutlineHeading[]> {
+  let outline: any[] | null;
+  try {
+    outline = await doc.getOutline();
+  } catch (err) {
+    warnings.warn("outline-unreadable", "Could not read bookmarks", {
+      cause: err,
+    });
+    return [];
+  }
+
+  const headings: OutlineHeading[] = [];
+  const visit = async (items: any[] | null | undefined, level: number) => {
+    for (const item of items ?? []) {
+      const title = normalizeHeading(item.title ?? "");
+      if (title) {
+        headings.push({
+          title,
+          level: Math.min(level, 6),
+          pageNum: await resolveDestinationPage(doc, item.dest),
+        });
+      }
+      await visit(item.items, level + 1);
+    }
+  };
+  await visit(outline, 1);
+  return headings;
+}
+
+async function resolveDestinationPage(
+  doc: PdfDocument,
+  dest: unknown,
+): Promise<number | undefined> {
+  try {
+    const explicit =
+      typeof dest === "string" ? await doc.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return undefined;
+    const target = explicit[0];
+    if (typeof target === "number") return target + 1;
+    return (await doc.getPageIndex(target)) + 1;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Page count plus the info dictionary's title, author, dates, etc. */
+async function readMetadata(
+  doc: PdfDocument,
+  warnings: WarningCollector,
+): Promise<DocumentMetadata> {
+  const metadata: DocumentMetadata = { pageCount: doc.numPages };
+  let info: Record<string, unknown>;
+  try {
+    info = ((await doc.getMetadata()).info ?? {}) as Record<string, unknown>;
+  } catch (err) {
+    warnings.warn("metadata-unreadable", "Could not read document info", {
+      cause: err,
+    });
+    return metadata;
+  }
+
+  const field = (key: string): string | undefined => {
+    const value = info[key];
+    if (typeof value !== "string") return undefined;
+    const trimmed = value.trim();
+    return trimmed && !PLACEHOLDER_METADATA.test(trimmed) ? trimmed : undefined;
+  };
+
+  const date = (key: string): string | undefined => {
+    const value = field(key);
+    return (value && PDFDateString.toDateObject(value)?.toISOString()) || undefined;
+  };
+
+  const title = field("Title");
+  if (title) metadata.title = title;
+  const author = field("Author");
+  if (author) metadata.author = author;
+  const subject = field("Subject");
+  if (subject) metadata.subject = subject;
+  const keywords = field("Keywords")
+    ?.split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+  if (keywords?.length) metadata.keywords = keywords;
+  const language = field("Language");
+  if (language) metadata.language = language;
+  const created = date("CreationDate");
+  if (created) metadata.created = created;
+  const modified = date("ModDate");
+  if (modified) metadata.modified = modified;
+  return metadata;
+}
+
+function postProcess(markdown: string): string {
+  // Merge MasterFormat partial numbering
+  markdown = mergeMasterFormatNumbering(markdown);
+
+  // Normalize whitespace
+  return markdown.replace(/\n{3,}/g, "\n\n").trim();
+}
+
 async function extractLinkAnnotations(
   page: any,
-  _viewportHeight: number,
+  warnings: WarningCollector,
+  location: SourceLocation,
 ): Promise<LinkAnnotation[]> {
   try {
     const annots = await page.getAnnotations();
@@ -118,14 +609,30 @@ async function extractLinkAnnotations(
       }
     }
     return links;
-  } catch {
+  } catch (err) {
+    warnings.warn("link-annotations-failed", "Could not read links", {
+      location,
+      cause: err,
+    });
     return [];
   }
 }
 
+interface PageLayout {
+  styles: Record<string, TextStyle>;
+  annotations: LinkAnnotation[];
+  viewportHeight: number;
+  /** Read multi-column text one column at a time */
+  detectColumns: boolean;
+  /** Bookmarks not yet matched to a line; matched ones are removed */
+  outline: OutlineHeading[];
+  pageNum: number;
+}
+
 interface EnrichedItem {
   str: string;
   x0: number;
+  x1: number;
   top: number;
   fontSize: number;
   bold: boolean;
@@ -158,12 +665,21 @@ interface ClassifiedLine {
 
 function buildPageHtml(
   items: TextItem[],
-  styles: Record<string, TextStyle>,
-  annotations: LinkAnnotation[],
-  viewportHeight: number,
+  layout: PageLayout,
+  bodyFontSize?: number,
 ): string {
+  const lines = buildLines(items, layout);
+  if (lines.length === 0) return "";
+
+  const bodySize = bodyFontSize ?? estimateBodyFontSize(lines);
+  return renderLinesHtml(lines, bodySize, layout);
+}
+
+function buildLines(items: TextItem[], layout: PageLayout): LineInfo[] {
+  const { styles, annotations, viewportHeight } = layout;
+
   // Phase A — Enrich items
-  const enriched: EnrichedItem[] = [];
+  let enriched: EnrichedItem[] = [];
   for (const item of items) {
     if (!("str" in item) || !item.str.trim()) continue;
 
@@ -195,6 +711,7 @@ function buildPageHtml(
     enriched.push({
       str: item.str,
       x0,
+      x1: x0 + item.width,
       top,
       fontSize,
       bold,
@@ -203,7 +720,11 @@ function buildPageHtml(
     });
   }
 
-  if (enriched.length === 0) return "";
+  if (enriched.length === 0) return [];
+
+  // Phase A2 — Put columns one after the other, so lines are grouped
+  // within a column rather than across the gutter
+  if (layout.detectColumns) enriched = orderByColumns(enriched);
 
   // Phase B — Group into lines (same Y-tolerance as existing code: 5px)
   const lines: LineInfo[] = [];
@@ -220,7 +741,10 @@ function buildPageHtml(
     }
   }
   lines.push(buildLine(currentItems));
+  return lines;
+}
 
+function estimateBodyFontSize(lines: LineInfo[]): number {
   // Phase C — Determine body font size (most common by character count)
   const fontSizeCounts = new Map<number, number>();
   for (const line of lines) {
@@ -238,7 +762,14 @@ function buildPageHtml(
       bodySize = size;
     }
   }
+  return bodySize;
+}
 
+function renderLinesHtml(
+  lines: LineInfo[],
+  bodySize: number,
+  layout: PageLayout,
+): string {
   // Phase D — Classify lines
   const classified: ClassifiedLine[] = [];
   for (const line of lines) {
@@ -248,7 +779,12 @@ function buildPageHtml(
     let type: LineType = "paragraph";
     let headingLevel: number | undefined;
 
-    if (ratio >= 1.15 && line.text.length <= 120) {
+    // Bookmarked lines are headings at their outline depth
+    const bookmark = takeOutlineHeading(layout, line.text);
+    if (bookmark) {
+      type = "heading";
+      headingLevel = bookmark.level;
+    } else if (ratio >= 1.15 && line.text.length <= 120) {
       type = "heading";
       if (ratio >= 1.8) headingLevel = 1;
       else if (ratio >= 1.5) headingLevel = 2;
@@ -313,6 +849,27 @@ function buildPageHtml(
   return htmlParts.join("\n");
 }
 
+function takeOutlineHeading(
+  layout: PageLayout,
+  text: string,
+): OutlineHeading | undefined {
+  if (layout.outline.length === 0) return undefined;
+  const title = normalizeHeading(text);
+  const index = layout.outline.findIndex(
+    (h) =>
+      h.title === title &&
+      (h.pageNum === undefined || h.pageNum === layout.pageNum),
+  );
+  return index >= 0 ? layout.outline.splice(index, 1)[0] : undefined;
+}
+
+function normalizeHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
 function buildLine(items: EnrichedItem[]): LineInfo {
   // Sort by x0 position
   items.sort((a, b) => a.x0 - b.x0);
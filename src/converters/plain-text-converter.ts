@@ -1,6 +1,8 @@
 import iconv from "iconv-lite";
 import {
   DocumentConverter,
+  documentSections,
+  WarningCollector,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
@@ -42,17 +44,53 @@ export class PlainTextConverter extends DocumentConverter {
   async convert(
     input: Buffer,
     info: StreamInfo,
-    _options?: ConvertOptions,
+    options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const charset = info.charset ?? "utf-8";
-    let text: string;
+    const warnings = new WarningCollector(options);
+    const charset = resolveCharset(info, warnings);
+    return textResult(iconv.decode(input, charset), charset, warnings);
+  }
+
+  async convertStream(
+    input: AsyncIterable<Buffer>,
+    info: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const warnings = new WarningCollector(options);
+    const charset = resolveCharset(info, warnings);
+    const decoder = iconv.getDecoder(charset);
+    const parts: string[] = [];
 
-    if (iconv.encodingExists(charset)) {
-      text = iconv.decode(input, charset);
-    } else {
-      text = input.toString("utf-8");
+    for await (const chunk of input) {
+      parts.push(decoder.write(chunk));
     }
+    parts.push(decoder.end() ?? "");
 
-    return { markdown: text.trim() };
+    return textResult(parts.join(""), charset, warnings);
   }
 }
+
+/** The hinted charset when iconv knows it, UTF-8 otherwise */
+function resolveCharset(info: StreamInfo, warnings: WarningCollector): string {
+  const charset = info.charset ?? "utf-8";
+  if (iconv.encodingExists(charset)) return charset;
+  warnings.warn(
+    "charset-fallback",
+    `Unknown charset "${charset}", decoded as UTF-8`,
+  );
+  return "utf-8";
+}
+
+function textResult(
+  text: string,
+  charset: string,
+  warnings: WarningCollector,
+): ConversionResult {
+  const markdown = text.trim();
+  return {
+    markdown,
+    metadata: { charset },
+    sections: documentSections(markdown),
+    warnings: warnings.warnings,
+  };
+}
@@ -2,11 +2,21 @@ import JSZip from "jszip";
 import { XMLParser } from "fast-xml-parser";
 import {
   DocumentConverter,
+  joinChunks,
+  WarningCollector,
+  throwIfAborted,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type DocumentMetadata,
+  type SourceLocation,
+  type ConversionProgress,
 } from "../base-converter.js";
 import { convertHtmlString } from "./html-converter.js";
+import { ImageExporter, imageMimetype } from "../images.js";
+import { readCoreProperties } from "./ooxml-properties.js";
+import { checkArchive, checkLimit } from "../limits.js";
 
 const PPTX_EXTENSIONS = new Set([".pptx"]);
 const PPTX_MIMETYPES = new Set([
@@ -16,6 +26,8 @@ const PPTX_MIMETYPES = new Set([
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: "@_",
+  // Spaces at the edges of a run separate it from its neighbours
+  trimValues: false,
   isArray: (name) => {
     // These elements can appear multiple times
     return [
@@ -54,74 +66,167 @@ export class PptxConverter extends DocumentConverter {
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
     const zip = await JSZip.loadAsync(input);
+    const slideFiles = await readSlideFiles(zip, options);
+    const warnings = new WarningCollector(options);
 
-    // Get slide order from presentation.xml
-    const presXml = await zip.file("ppt/presentation.xml")?.async("string");
-    if (!presXml) throw new Error("Invalid PPTX: missing presentation.xml");
-
-    const pres = xmlParser.parse(presXml);
-    const slideIds = getSlideIds(pres);
-
-    // Get slide relationships to map rId -> slide file
-    const presRelsXml = await zip
-      .file("ppt/_rels/presentation.xml.rels")
-      ?.async("string");
-    if (!presRelsXml) throw new Error("Invalid PPTX: missing presentation.xml.rels");
+    const chunks: ConversionChunk[] = [];
+    const slides = renderSlides(zip, slideFiles, warnings, options);
+    for await (const slide of slides) {
+      chunks.push(slide);
+    }
 
-    const presRels = xmlParser.parse(presRelsXml);
-    const rIdToFile = buildRelMap(presRels);
+    const { markdown, sections } = joinChunks(chunks);
+    const metadata: DocumentMetadata = {
+      ...(await readCoreProperties(zip, warnings)),
+      slideCount: slideFiles.length,
+    };
+    return {
+      markdown,
+      title: metadata.title,
+      metadata,
+      sections,
+      warnings: warnings.warnings,
+    };
+  }
 
-    const parts: string[] = [];
+  async *convertIter(
+    input: Buffer,
+    _info: StreamInfo,
+    options?: ConvertOptions,
+  ): AsyncGenerator<ConversionChunk> {
+    const zip = await JSZip.loadAsync(input);
+    const warnings = new WarningCollector(options);
+    yield* renderSlides(
+      zip,
+      await readSlideFiles(zip, options),
+      warnings,
+      options,
+    );
+  }
+}
 
-    for (const rId of slideIds) {
-      const slideFile = rIdToFile[rId];
-      if (!slideFile) continue;
+/**
+ * Slide part paths in presentation order; undefined where a slide's
+ * relationship is missing, so indexes still match slide numbers.
+ */
+async function readSlideFiles(
+  zip: JSZip,
+  options?: ConvertOptions,
+): Promise<(string | undefined)[]> {
+  await checkArchive(zip, options);
+  // Get slide order from presentation.xml
+  const presXml = await zip.file("ppt/presentation.xml")?.async("string");
+  if (!presXml) throw new Error("Invalid PPTX: missing presentation.xml");
+
+  const pres = xmlParser.parse(presXml);
+  const slideIds = getSlideIds(pres);
+  checkLimit(options, "maxSlides", slideIds.length);
+
+  // Get slide relationships to map rId -> slide file
+  const presRelsXml = await zip
+    .file("ppt/_rels/presentation.xml.rels")
+    ?.async("string");
+  if (!presRelsXml) throw new Error("Invalid PPTX: missing presentation.xml.rels");
+
+  const presRels = xmlParser.parse(presRelsXml);
+  const rIdToFile = buildRelMap(presRels);
+
+  return slideIds.map((id) =>
+    rIdToFile[id] ? `ppt/${rIdToFile[id]}` : undefined,
+  );
+}
 
-      const slidePath = `ppt/${slideFile}`;
-      const slideXml = await zip.file(slidePath)?.async("string");
-      if (!slideXml) continue;
+async function* renderSlides(
+  zip: JSZip,
+  slideFiles: (string | undefined)[],
+  warnings: WarningCollector,
+  options?: ConvertOptions,
+): AsyncGenerator<ConversionChunk> {
+  // Slides share layouts, so each layout is read once
+  const layoutPlaceholders = new Map<string, Promise<Placeholder[]>>();
+  const images = new ImageExporter(options);
+  for (let index = 0; index < slideFiles.length; index++) {
+    const progress: ConversionProgress = {
+      unit: "slide",
+      current: index,
+      total: slideFiles.length,
+    };
+    throwIfAborted(options?.signal, progress);
+    options?.onProgress?.(progress);
+    const location: SourceLocation = { unit: "slide", index: index + 1 };
+    const slidePath = slideFiles[index];
+    if (!slidePath) {
+      warnings.warn("missing-part", "Slide relationship is missing", {
+        location,
+      });
+      continue;
+    }
 
-      const slide = xmlParser.parse(slideXml);
+    const slideXml = await zip.file(slidePath)?.async("string");
+    if (!slideXml) {
+      warnings.warn("missing-part", `Slide part ${slidePath} is missing`, {
+        location,
+      });
+      continue;
+    }
 
-      // Get slide-level relationships (for images, charts)
-      const slideRelsPath = slidePath.replace(
-        /([^/]+)$/,
-        "_rels/$1.rels",
-      );
-      const slideRelsXml = await zip.file(slideRelsPath)?.async("string");
-      const slideRelMap = slideRelsXml
-        ? buildRelMap(xmlParser.parse(slideRelsXml))
-        : {};
-
-      const slideMarkdown = await processSlide(
-        slide,
-        slideRelMap,
-        zip,
-        slidePath,
-        options,
-      );
-      if (slideMarkdown.trim()) {
-        parts.push(slideMarkdown.trim());
-      }
+    const slide = xmlParser.parse(slideXml);
+    const hidden = isHidden(slide);
+    if (hidden && options?.hiddenSlides === "skip") continue;
+    const flagged = hidden && options?.hiddenSlides !== "include";
+    const parts: string[] = [
+      `<!-- Slide ${index + 1}${flagged ? " (hidden)" : ""} -->`,
+    ];
+
+    // Get slide-level relationships (for images, charts)
+    const slideRelMap = await readRelMap(zip, slidePath);
+    const inherited = await readInheritedPlaceholders(
+      zip,
+      slidePath,
+      slideRelMap,
+      layoutPlaceholders,
+    );
+
+    const slideMarkdown = await processSlide(
+      slide,
+      slideRelMap,
+      inherited,
+      zip,
+      slidePath,
+      warnings,
+      location,
+      images,
+      options,
+    );
+    if (slideMarkdown.trim()) {
+      parts.push(slideMarkdown.trim());
+    }
 
-      // Process slide notes
-      const noteRId = Object.entries(slideRelMap).find(([, v]) =>
-        v.includes("notesSlide"),
-      );
-      if (noteRId) {
-        const notePath = resolveRelPath(slidePath, noteRId[1]);
-        const noteXml = await zip.file(notePath)?.async("string");
-        if (noteXml) {
-          const noteText = extractAllText(xmlParser.parse(noteXml));
-          if (noteText.trim()) {
-            parts.push(`### Notes:\n${noteText.trim()}`);
-          }
+    // Process slide notes
+    const noteRId = Object.entries(slideRelMap).find(([, v]) =>
+      v.includes("notesSlide"),
+    );
+    if (noteRId) {
+      const notePath = resolveRelPath(slidePath, noteRId[1]);
+      const noteXml = await zip.file(notePath)?.async("string");
+      if (noteXml) {
+        const noteText = extractAllText(xmlParser.parse(noteXml));
+        if (noteText.trim()) {
+          parts.push(`### Notes:\n${noteText.trim()}`);
         }
       }
     }
 
-    return { markdown: parts.join("\n\n").trim() };
+    yield {
+      markdown: parts.join("\n\n"),
+      location,
+    };
   }
+  options?.onProgress?.({
+    unit: "slide",
+    current: slideFiles.length,
+    total: slideFiles.length,
+  });
 }
 
 function getSlideIds(pres: any): string[] {
@@ -146,6 +251,106 @@ function buildRelMap(rels: any): Record<string, string> {
   return map;
 }
 
+async function readRelMap(
+  zip: JSZip,
+  partPath: string,
+): Promise<Record<string, string>> {
+  const relsPath = partPath.replace(/([^/]+)$/, "_rels/$1.rels");
+  const relsXml = await zip.file(relsPath)?.async("string");
+  return relsXml ? buildRelMap(xmlParser.parse(relsXml)) : {};
+}
+
+/** Hidden slides have `show="0"` on `p:sld` */
+function isHidden(slide: any): boolean {
+  const show = slide?.["p:sld"]?.["@_show"];
+  return show === "0" || show === "false";
+}
+
+/** A placeholder as defined on a slide layout or master */
+interface Placeholder {
+  type: string;
+  idx?: string;
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Placeholders of the slide's layout, with positions the layout leaves
+ * to its master filled in. Slides usually only reference a placeholder
+ * by `idx` or `type`, inheriting its type and position from these.
+ */
+function readInheritedPlaceholders(
+  zip: JSZip,
+  slidePath: string,
+  slideRelMap: Record<string, string>,
+  cache: Map<string, Promise<Placeholder[]>>,
+): Promise<Placeholder[]> {
+  const layoutRef = Object.values(slideRelMap).find((target) =>
+    target.includes("slideLayout"),
+  );
+  if (!layoutRef) return Promise.resolve([]);
+  const layoutPath = resolveRelPath(slidePath, layoutRef);
+
+  let placeholders = cache.get(layoutPath);
+  if (!placeholders) {
+    placeholders = (async () => {
+      const layout = await readPlaceholders(zip, layoutPath);
+      const masterRef = Object.values(await readRelMap(zip, layoutPath)).find(
+        (target) => target.includes("slideMaster"),
+      );
+      const master = masterRef
+        ? await readPlaceholders(zip, resolveRelPath(layoutPath, masterRef))
+        : [];
+      return layout.map((ph) => {
+        if (ph.y !== undefined) return ph;
+        const fromMaster = matchPlaceholder(master, ph.type);
+        return { ...ph, x: fromMaster?.x, y: fromMaster?.y };
+      });
+    })();
+    cache.set(layoutPath, placeholders);
+  }
+  return placeholders;
+}
+
+async function readPlaceholders(
+  zip: JSZip,
+  partPath: string,
+): Promise<Placeholder[]> {
+  const xml = await zip.file(partPath)?.async("string");
+  if (!xml) return [];
+  const doc = xmlParser.parse(xml);
+  const root = doc?.["p:sldLayout"] ?? doc?.["p:sldMaster"];
+  const spTree = root?.["p:cSld"]?.["p:spTree"];
+  const placeholders: Placeholder[] = [];
+  for (const sp of asArray<any>(spTree?.["p:sp"])) {
+    const ph = sp?.["p:nvSpPr"]?.["p:nvPr"]?.["p:ph"];
+    if (!ph) continue;
+    placeholders.push({
+      type: ph["@_type"] ?? "body",
+      idx: ph["@_idx"],
+      ...getPosition(sp),
+    });
+  }
+  return placeholders;
+}
+
+/** Find the inherited placeholder by `idx` first, then by type */
+function matchPlaceholder(
+  placeholders: Placeholder[],
+  type: string | undefined,
+  idx?: string,
+): Placeholder | undefined {
+  if (idx !== undefined) {
+    const byIdx = placeholders.find((ph) => ph.idx === idx);
+    if (byIdx) return byIdx;
+  }
+  if (type === undefined) return undefined;
+  const titleLike = (t: string) => t === "title" || t === "ctrTitle";
+  return placeholders.find(
+    (ph) => ph.type === type || (titleLike(type) && titleLike(ph.type)),
+  );
+}
+
 function resolveRelPath(basePath: string, relTarget: string): string {
   const dir = basePath.substring(0, basePath.lastIndexOf("/"));
   // Handle relative paths like "../notesSlides/notesSlide1.xml"
@@ -161,15 +366,19 @@ function resolveRelPath(basePath: string, relTarget: string): string {
 async function processSlide(
   slide: any,
   relMap: Record<string, string>,
+  inherited: Placeholder[],
   zip: JSZip,
   slidePath: string,
+  warnings: WarningCollector,
+  location: SourceLocation,
+  images: ImageExporter,
   options?: ConvertOptions,
 ): Promise<string> {
   const spTree =
     slide?.["p:sld"]?.["p:cSld"]?.["p:spTree"];
   if (!spTree) return "";
 
-  const shapes = collectShapes(spTree);
+  const shapes = collectShapes(spTree, inherited, relMap);
 
   // Sort by position: top-to-bottom, then left-to-right
   shapes.sort((a, b) => {
@@ -182,7 +391,9 @@ async function processSlide(
 
   for (const shape of shapes) {
     if (shape.type === "title") {
-      parts.push(`# ${shape.text}`);
+      parts.push(`# ${shape.text.replace(/\s*\n\s*/g, " ")}`);
+    } else if (shape.type === "subtitle") {
+      parts.push(`## ${shape.text.replace(/\s*\n\s*/g, " ")}`);
     } else if (shape.type === "text") {
       parts.push(shape.text);
     } else if (shape.type === "table") {
@@ -193,20 +404,36 @@ async function processSlide(
       if (imgRef && !imgRef.startsWith("http")) {
         const imgPath = resolveRelPath(slidePath, imgRef);
         const imgFile = zip.file(imgPath);
-        if (imgFile && options?.keepDataUris) {
+        const filename = imgRef.split("/").pop() ?? imgRef;
+        const mime = imageMimetype(filename);
+        if (imgFile && images.enabled) {
+          const path = await images.export(
+            await imgFile.async("nodebuffer"),
+            mime,
+            filename.replace(/\.[^.]*$/, ""),
+          );
+          parts.push(`![${alt}](${path})`);
+        } else if (imgFile && options?.keepDataUris) {
           const imgData = await imgFile.async("base64");
-          const ext = imgRef.split(".").pop() ?? "png";
-          const mime = ext === "jpg" || ext === "jpeg" ? "image/jpeg" : `image/${ext}`;
           parts.push(`![${alt}](data:${mime};base64,${imgData})`);
         } else {
-          const filename = imgRef.split("/").pop() ?? imgRef;
           parts.push(`![${alt}](${filename})`);
         }
       } else if (imgRef) {
         parts.push(`![${alt}](${imgRef})`);
       }
     } else if (shape.type === "chart") {
-      parts.push(shape.text);
+      const chartRef = shape.relId ? relMap[shape.relId] : undefined;
+      if (!chartRef) continue;
+      const chartPath = resolveRelPath(slidePath, chartRef);
+      const chartXml = await zip.file(chartPath)?.async("string");
+      if (!chartXml) {
+        warnings.warn("missing-part", `Chart part ${chartPath} is missing`, {
+          location,
+        });
+        continue;
+      }
+      parts.push(convertChart(xmlParser.parse(chartXml), options));
     }
   }
 
@@ -214,28 +441,50 @@ async function processSlide(
 }
 
 interface ShapeInfo {
-  type: "title" | "text" | "table" | "image" | "chart";
+  type: "title" | "subtitle" | "text" | "table" | "image" | "chart";
   text: string;
   x?: number;
   y?: number;
   relId?: string;
 }
 
-function collectShapes(spTree: any): ShapeInfo[] {
+/** Placeholders repeated on every slide that carry no content */
+const BOILERPLATE_PLACEHOLDERS = new Set(["dt", "ftr", "hdr", "sldNum"]);
+
+/** Placeholders whose paragraphs are bulleted unless they say otherwise */
+const LIST_PLACEHOLDERS = new Set(["body", "obj"]);
+
+function collectShapes(
+  spTree: any,
+  inherited: Placeholder[],
+  relMap: Record<string, string>,
+): ShapeInfo[] {
   const shapes: ShapeInfo[] = [];
 
   // Regular shapes (p:sp)
   const spList = asArray(spTree["p:sp"]);
   for (const sp of spList) {
-    const pos = getPosition(sp);
-    const isTitle = isPlaceholderTitle(sp);
-    const text = extractShapeText(sp);
+    let pos = getPosition(sp);
+    const ph = sp?.["p:nvSpPr"]?.["p:nvPr"]?.["p:ph"];
+    let phType: string | undefined = ph?.["@_type"];
+    if (ph) {
+      const base = matchPlaceholder(inherited, phType, ph["@_idx"]);
+      phType ??= base?.type ?? "body";
+      if (pos.y === undefined && base) pos = { x: base.x, y: base.y };
+    }
+    if (phType && BOILERPLATE_PLACEHOLDERS.has(phType)) continue;
+
+    const type = placeholderShapeType(phType);
+    const text =
+      type === "text"
+        ? renderTextBody(
+            sp?.["p:txBody"],
+            relMap,
+            phType !== undefined && LIST_PLACEHOLDERS.has(phType),
+          )
+        : extractShapeText(sp);
     if (text.trim()) {
-      shapes.push({
-        type: isTitle ? "title" : "text",
-        text: text.trim(),
-        ...pos,
-      });
+      shapes.push({ type, text: text.trim(), ...pos });
     }
   }
 
@@ -277,7 +526,7 @@ function collectShapes(spTree: any): ShapeInfo[] {
     if (chartRef) {
       shapes.push({
         type: "chart",
-        text: "", // Chart data is extracted separately if needed
+        text: "", // Read from the chart part by processSlide
         relId: chartRef,
         ...pos,
       });
@@ -287,7 +536,7 @@ function collectShapes(spTree: any): ShapeInfo[] {
   // Group shapes (p:grpSp) — recurse
   const grpList = asArray(spTree["p:grpSp"]);
   for (const grp of grpList) {
-    shapes.push(...collectShapes(grp));
+    shapes.push(...collectShapes(grp, inherited, relMap));
   }
 
   return shapes;
@@ -305,12 +554,10 @@ function getPosition(shape: any): { x?: number; y?: number } {
   };
 }
 
-function isPlaceholderTitle(sp: any): boolean {
-  const ph =
-    sp?.["p:nvSpPr"]?.["p:nvPr"]?.["p:ph"];
-  if (!ph) return false;
-  const type = ph["@_type"] ?? "";
-  return type === "title" || type === "ctrTitle";
+function placeholderShapeType(type: string | undefined): ShapeInfo["type"] {
+  if (type === "title" || type === "ctrTitle") return "title";
+  if (type === "subTitle") return "subtitle";
+  return "text";
 }
 
 function extractShapeText(sp: any): string {
@@ -347,30 +594,280 @@ function extractParagraphs(txBody: any): string {
   return lines.join("\n");
 }
 
+/**
+ * Render a text body as Markdown. Paragraphs with a bullet (`a:buChar`)
+ * or numbering (`a:buAutoNum`) become list items nested by their `lvl`;
+ * in body placeholders every paragraph is bulleted unless it has
+ * `a:buNone`. Other paragraphs are separated by blank lines.
+ */
+function renderTextBody(
+  txBody: any,
+  relMap: Record<string, string>,
+  bulleted: boolean,
+): string {
+  const blocks: string[] = [];
+  // Item numbers by level; undefined for bulleted levels
+  const counters: (number | undefined)[] = [];
+  let list: string[] | undefined;
+
+  for (const p of asArray<any>(txBody?.["a:p"])) {
+    const text = renderRuns(p, relMap).trim();
+    if (!text) continue;
+
+    const pPr = p?.["a:pPr"] ?? {};
+    const autoNum = pPr["a:buAutoNum"];
+    const isItem =
+      pPr["a:buNone"] === undefined &&
+      (bulleted || pPr["a:buChar"] !== undefined || autoNum !== undefined);
+    if (!isItem) {
+      list = undefined;
+      counters.length = 0;
+      blocks.push(text);
+      continue;
+    }
+
+    if (!list) {
+      list = [];
+      blocks.push("");
+    }
+    // A level deeper than the previous item's would not nest in Markdown
+    const level = Math.min(Number(pPr["@_lvl"]) || 0, counters.length);
+    counters.length = level + 1;
+    let marker = "-";
+    if (autoNum !== undefined) {
+      counters[level] =
+        counters[level] !== undefined
+          ? counters[level]! + 1
+          : Number(autoNum["@_startAt"]) || 1;
+      marker = `${counters[level]}.`;
+    } else {
+      counters[level] = undefined;
+    }
+    list.push(`${"    ".repeat(level)}${marker} ${text}`);
+    blocks[blocks.length - 1] = list.join("\n");
+  }
+
+  return blocks.join("\n\n");
+}
+
+interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  link?: string;
+}
+
+/**
+ * A paragraph's runs with `**bold**`, `*italic*` and `[text](url)` links,
+ * the links resolved through the slide relationships
+ */
+function renderRuns(p: any, relMap: Record<string, string>): string {
+  const runs: TextRun[] = [];
+  for (const r of asArray<any>(p?.["a:r"])) {
+    const t = r?.["a:t"];
+    if (t === undefined || t === null) continue;
+    const rPr = r["a:rPr"];
+    const target = relMap[rPr?.["a:hlinkClick"]?.["@_r:id"]];
+    const run: TextRun = {
+      text: String(t),
+      bold: isOn(rPr?.["@_b"]),
+      italic: isOn(rPr?.["@_i"]),
+      // Jumps to other slides have no URL to link to
+      link: target && /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : undefined,
+    };
+    // Merge runs split only by properties Markdown does not show
+    const last = runs.at(-1);
+    if (
+      last &&
+      last.bold === run.bold &&
+      last.italic === run.italic &&
+      last.link === run.link
+    ) {
+      last.text += run.text;
+    } else {
+      runs.push(run);
+    }
+  }
+
+  let text = runs.map(formatRun).join("");
+  for (const f of asArray<any>(p?.["a:fld"])) {
+    const t = f?.["a:t"];
+    if (t !== undefined && t !== null) text += String(t);
+  }
+  return text;
+}
+
+function formatRun(run: TextRun): string {
+  // Emphasis markers must touch the text, so spaces stay outside
+  const [, before, core, after] = /^(\s*)(.*?)(\s*)$/s.exec(run.text)!;
+  if (!core) return run.text;
+  const stars = (run.bold ? "**" : "") + (run.italic ? "*" : "");
+  let text = `${stars}${core}${[...stars].reverse().join("")}`;
+  if (run.link) text = `[${text}](${run.link})`;
+  return `${before}${text}${after}`;
+}
+
+function isOn(value: unknown): boolean {
+  return value === "1" || value === "true";
+}
+
+/**
+ * Render a table as Markdown. A merged cell keeps its text in the top-left
+ * cell (`gridSpan`, `rowSpan`) and the cells it covers are blank, whether
+ * or not the file lists them (`hMerge`, `vMerge`). Row 0 is the header only
+ * when the table has `firstRow`; otherwise the header row is left empty.
+ * Paragraphs within a cell are separated by `<br>`.
+ */
 function convertPptxTable(tbl: any): string {
   const rows = asArray(tbl?.["a:tr"]);
   if (rows.length === 0) return "";
 
-  const htmlParts: string[] = ["<table>"];
-
-  for (let i = 0; i < rows.length; i++) {
-    const cells = asArray(rows[i]?.["a:tc"]);
-    const tag = i === 0 ? "th" : "td";
-    if (i === 0) htmlParts.push("<thead>");
-    if (i === 1) htmlParts.push("<tbody>");
-    htmlParts.push("<tr>");
-    for (const cell of cells) {
-      const text = extractParagraphs(cell?.["a:txBody"]);
-      htmlParts.push(`<${tag}>${escapeHtml(text)}</${tag}>`);
+  const grid: string[][] = rows.map(() => []);
+  // Positions covered by a merged cell, by row
+  const covered: Set<number>[] = rows.map(() => new Set());
+
+  for (let r = 0; r < rows.length; r++) {
+    let col = 0;
+    for (const tc of asArray(rows[r]?.["a:tc"])) {
+      if (isOn(tc?.["@_hMerge"]) || isOn(tc?.["@_vMerge"])) {
+        grid[r][col++] = "";
+        continue;
+      }
+      // Covered cells the file leaves out
+      while (covered[r].has(col)) grid[r][col++] = "";
+
+      grid[r][col] = tableCellText(tc?.["a:txBody"]);
+      const colSpan = Math.max(1, Number(tc?.["@_gridSpan"]) || 1);
+      const rowSpan = Math.max(1, Number(tc?.["@_rowSpan"]) || 1);
+      for (let dr = 0; dr < rowSpan && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < colSpan; dc++) {
+          if (dr > 0 || dc > 0) covered[r + dr].add(col + dc);
+        }
+      }
+      col++;
+    }
+  }
+
+  const width = Math.max(
+    asArray(tbl?.["a:tblGrid"]?.["a:gridCol"]).length,
+    ...grid.map((row) => row.length),
+  );
+  const lines = grid.map(
+    (row) =>
+      "| " +
+      Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ") +
+      " |",
+  );
+  const separator = "| " + Array(width).fill("---").join(" | ") + " |";
+  const empty = "| " + Array(width).fill("").join(" | ") + " |";
+  const hasHeader = isOn(tbl?.["a:tblPr"]?.["@_firstRow"]);
+  return hasHeader
+    ? [lines[0], separator, ...lines.slice(1)].join("\n")
+    : [empty, separator, ...lines].join("\n");
+}
+
+function tableCellText(txBody: any): string {
+  return extractParagraphs(txBody)
+    .split("\n")
+    .map((line) => line.trim().replace(/\|/g, "\\|"))
+    .filter(Boolean)
+    .join("<br>");
+}
+
+/** Chart type labels by plot element, e.g. `c:barChart` */
+const CHART_TYPES: Record<string, string> = {
+  "c:areaChart": "Area",
+  "c:area3DChart": "Area",
+  "c:barChart": "Bar",
+  "c:bar3DChart": "Bar",
+  "c:bubbleChart": "Bubble",
+  "c:doughnutChart": "Doughnut",
+  "c:lineChart": "Line",
+  "c:line3DChart": "Line",
+  "c:ofPieChart": "Pie",
+  "c:pieChart": "Pie",
+  "c:pie3DChart": "Pie",
+  "c:radarChart": "Radar",
+  "c:scatterChart": "Scatter",
+  "c:stockChart": "Stock",
+  "c:surfaceChart": "Surface",
+  "c:surface3DChart": "Surface",
+};
+
+/**
+ * Render a chart part as a heading with its type and title, followed by
+ * a table of the values cached in the part: one row per category and one
+ * column per series.
+ */
+function convertChart(chartDoc: any, options?: ConvertOptions): string {
+  const chart = chartDoc?.["c:chartSpace"]?.["c:chart"];
+  const plotArea = chart?.["c:plotArea"] ?? {};
+
+  const types: string[] = [];
+  const series: { name: string; categories: string[]; values: string[] }[] =
+    [];
+  for (const [element, label] of Object.entries(CHART_TYPES)) {
+    for (const plot of asArray(plotArea[element])) {
+      if (!types.includes(label)) types.push(label);
+      for (const ser of asArray<any>(plot?.["c:ser"])) {
+        series.push({
+          name: chartText(ser?.["c:tx"]) || `Series ${series.length + 1}`,
+          categories: chartPoints(ser?.["c:cat"] ?? ser?.["c:xVal"]),
+          values: chartPoints(ser?.["c:val"] ?? ser?.["c:yVal"]),
+        });
+      }
     }
-    htmlParts.push("</tr>");
-    if (i === 0) htmlParts.push("</thead>");
   }
 
-  htmlParts.push("</tbody></table>");
+  const kind = types.length > 0 ? `${types.join(" and ")} chart` : "Chart";
+  const title = chartText(chart?.["c:title"]?.["c:tx"]);
+  const heading = `### ${title ? `${kind}: ${title}` : kind}`;
+  if (series.length === 0) return heading;
+
+  const categories = series.find((s) => s.categories.length > 0)?.categories;
+  const rowCount = Math.max(
+    categories?.length ?? 0,
+    ...series.map((s) => s.values.length),
+  );
+  let html = "<table><thead><tr><th>Category</th>";
+  for (const s of series) html += `<th>${escapeHtml(s.name)}</th>`;
+  html += "</tr></thead><tbody>";
+  for (let row = 0; row < rowCount; row++) {
+    html += `<tr><td>${escapeHtml(categories?.[row] ?? String(row + 1))}</td>`;
+    for (const s of series) html += `<td>${escapeHtml(s.values[row] ?? "")}</td>`;
+    html += "</tr>";
+  }
+  html += "</tbody></table>";
 
-  const { markdown } = convertHtmlString(htmlParts.join(""));
-  return markdown;
+  const { markdown } = convertHtmlString(html, options);
+  return `${heading}\n\n${markdown}`;
+}
+
+/** Text of a chart title or series name: rich text or a cached cell */
+function chartText(tx: any): string {
+  if (!tx) return "";
+  if (tx["c:rich"]) return extractParagraphs(tx["c:rich"]).trim();
+  if (tx["c:v"] !== undefined) return String(tx["c:v"]);
+  return chartPoints(tx)[0] ?? "";
+}
+
+/** Cached values of a `c:cat`/`c:val` reference or literal, by index */
+function chartPoints(data: any): string[] {
+  const source = asArray<any>(data)[0];
+  if (!source) return [];
+  const ref = asArray<any>(source["c:strRef"] ?? source["c:numRef"])[0];
+  const cache =
+    asArray<any>(ref?.["c:strCache"] ?? ref?.["c:numCache"])[0] ??
+    source["c:strLit"] ??
+    source["c:numLit"];
+  const points: string[] = [];
+  for (const pt of asArray<any>(cache?.["c:pt"])) {
+    const index = Number(pt?.["@_idx"]);
+    if (Number.isInteger(index) && pt["c:v"] !== undefined) {
+      points[index] = String(pt["c:v"]);
+    }
+  }
+  return Array.from(points, (point) => point ?? "");
 }
 
 function extractAllText(obj: any): string {
@@ -0,0 +1,138 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI, Cheerio } from "cheerio";
+import type { Element } from "domhandler";
+import {
+  DocumentConverter,
+  WarningCollector,
+  documentSections,
+  type StreamInfo,
+  type ConversionResult,
+  type ConvertOptions,
+} from "../base-converter.js";
+import {
+  convertHtmlString,
+  decodeHtml,
+  exportDataUriImages,
+  isHtmlStream,
+  readHtmlMetadata,
+  withDocumentUrl,
+  type ExportedImages,
+} from "./html-converter.js";
+import { rewriteHtmlUrls } from "./html-urls.js";
+import { ImageExporter } from "../images.js";
+
+const STACKEXCHANGE_URL =
+  /^https?:\/\/([a-z0-9-]+\.)*(stackoverflow\.com|stackexchange\.com|superuser\.com|serverfault\.com|askubuntu\.com|mathoverflow\.net|stackapps\.com)\/questions\/\d+/i;
+
+interface Post {
+  score: number;
+  author?: string;
+  accepted: boolean;
+  body: string;
+}
+
+export class StackExchangeConverter extends DocumentConverter {
+  accepts(input: Buffer, info: StreamInfo): boolean {
+    if (!isHtmlStream(info)) return false;
+    if (info.url && STACKEXCHANGE_URL.test(info.url)) return true;
+    // Saved or mirrored pages: Q&A page markup
+    return (
+      input.includes('id="question-header"') &&
+      input.includes('id="question"')
+    );
+  }
+
+  async convert(
+    input: Buffer,
+    info: StreamInfo,
+    convertOptions?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const options = withDocumentUrl(convertOptions, info);
+    const warnings = new WarningCollector(options);
+    const $ = cheerio.load(decodeHtml(input, info, warnings));
+    $("script, style, noscript").remove();
+    // Resolve against the page's <base> before fragments are cut out
+    rewriteHtmlUrls($, options);
+
+    const questionEl = $("#question").first();
+    if (questionEl.length === 0) {
+      throw new Error("No Stack Exchange question found");
+    }
+
+    const title =
+      $("#question-header h1").first().text().trim() ||
+      $("title").first().text().trim() ||
+      undefined;
+
+    const exported = await exportDataUriImages(
+      $.html($("#question, .answer")),
+      new ImageExporter(options),
+    );
+    const question = readPost($, questionEl, options, exported);
+
+    // Accepted answer first, then by score
+    const answers = $(".answer")
+      .toArray()
+      .map((el) => readPost($, $(el), options, exported))
+      .sort((a, b) => Number(b.accepted) - Number(a.accepted) || b.score - a.score);
+
+    const parts: string[] = [];
+    if (title) parts.push(`# ${title}`);
+    parts.push(`## ${postHeader("Question", question)}`);
+    parts.push(question.body);
+
+    if (answers.length > 0) {
+      parts.push(`## Answers (${answers.length})`);
+      for (const answer of answers) {
+        const label = answer.accepted ? "Accepted answer" : "Answer";
+        parts.push(`### ${postHeader(label, answer)}`);
+        parts.push(answer.body);
+      }
+    }
+
+    const metadata = readHtmlMetadata($);
+    if (title) metadata.title = title;
+    if (question.author) metadata.author = question.author;
+
+    const markdown = parts.filter(Boolean).join("\n\n").trim();
+    return {
+      markdown,
+      title,
+      metadata,
+      sections: documentSections(markdown),
+      warnings: warnings.warnings,
+    };
+  }
+}
+
+function readPost(
+  $: CheerioAPI,
+  post: Cheerio<Element>,
+  options?: ConvertOptions,
+  exported?: ExportedImages,
+): Post {
+  const score = Number(
+    post.attr("data-score") ??
+      post.find('[itemprop="upvoteCount"], .js-vote-count').first().text().trim(),
+  );
+  const accepted =
+    post.hasClass("accepted-answer") ||
+    post.attr("itemprop") === "acceptedAnswer";
+
+  // The last signature is the owner's; earlier ones are editors
+  const signature = post.find(".post-signature").last();
+  const author =
+    signature.find(".user-details [itemprop=name]").first().text().trim() ||
+    signature.find(".user-details a").first().text().trim() ||
+    undefined;
+
+  const bodyHtml = post.find(".js-post-body, .s-prose, .post-text").first().html() ?? "";
+  const { markdown } = convertHtmlString(bodyHtml, options, exported);
+
+  return { score: Number.isFinite(score) ? score : 0, author, accepted, body: markdown };
+}
+
+function postHeader(label: string, post: Post): string {
+  const author = post.author ? ` by ${post.author}` : "";
+  return `${label} (score: ${post.score})${author}`;
+}
@@ -28,12 +28,116 @@ interface RowInfo {
   alignedCount: number;
 }
 
+export interface TableRegion {
+  /** `top` of the first and last words of the table, in the words' coordinates */
+  top: number;
+  bottom: number;
+  /** The table as GFM Markdown */
+  markdown: string;
+}
+
+interface RowClassification {
+  rows: RowInfo[];
+  globalColumns: number[];
+  globalColumnGap: number;
+}
+
 const PARTIAL_NUMBERING = /^\.\d+$/;
 
 export function detectTables(
   words: PositionedWord[],
   options: TableDetectorOptions,
 ): string | null {
+  const classification = classifyRows(words, options);
+  if (!classification) return null;
+  const { rows, globalColumns, globalColumnGap } = classification;
+
+  // Step 6: Find consecutive table regions and format output
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < rows.length) {
+    if (!rows[i].isTableRow) {
+      // Non-table row: plain text
+      if (rows[i].text.trim()) {
+        output.push(rows[i].text.trim());
+      }
+      i++;
+      continue;
+    }
+
+    // Found start of a table region
+    const regionStart = i;
+    while (i < rows.length && rows[i].isTableRow) {
+      i++;
+    }
+
+    output.push(
+      ...formatTable(rows.slice(regionStart, i), globalColumns, globalColumnGap),
+    );
+  }
+
+  const result = output.join("\n").trim();
+  return result || null;
+}
+
+/**
+ * Like `detectTables`, but returns only the table regions with their
+ * vertical extent, so callers can render the rest of the page themselves
+ * and interleave the tables in reading order. Returns null when the page
+ * does not contain a table.
+ */
+export function detectTableRegions(
+  words: PositionedWord[],
+  options: TableDetectorOptions,
+): TableRegion[] | null {
+  const classification = classifyRows(words, options);
+  if (!classification) return null;
+  const { rows, globalColumns, globalColumnGap } = classification;
+
+  const regions: TableRegion[] = [];
+  let i = 0;
+
+  while (i < rows.length) {
+    if (!rows[i].isTableRow) {
+      i++;
+      continue;
+    }
+
+    const regionStart = i;
+    while (i < rows.length && rows[i].isTableRow) {
+      i++;
+    }
+
+    const tableRows = rows.slice(regionStart, i);
+    const cells = buildTableCells(tableRows, globalColumns, globalColumnGap);
+
+    // A region that fills a single column is prose that happened to align
+    const filledColumns = globalColumns.filter((_c, col) =>
+      cells.some((row) => row[col] !== ""),
+    ).length;
+    if (filledColumns < 2) continue;
+
+    const tops = tableRows.flatMap((r) => r.words.map((w) => w.top));
+    regions.push({
+      top: Math.min(...tops),
+      bottom: Math.max(...tops),
+      markdown: renderTable(cells).join("\n"),
+    });
+  }
+
+  return regions.length > 0 ? regions : null;
+}
+
+/**
+ * Steps 1–5: group words into rows, find the global column structure and
+ * mark table rows. Returns null when the page does not look like it
+ * contains a table.
+ */
+function classifyRows(
+  words: PositionedWord[],
+  options: TableDetectorOptions,
+): RowClassification | null {
   const {
     pageWidth,
     yTolerance = 5,
@@ -232,62 +336,57 @@ export function detectTables(
   const tableRowCount = rows.filter((r) => r.isTableRow).length;
   if (tableRowCount / totalRows < minTableDensity) return null;
 
-  // Step 6: Find consecutive table regions and format output
-  const output: string[] = [];
-  let i = 0;
-
-  while (i < rows.length) {
-    if (!rows[i].isTableRow) {
-      // Non-table row: plain text
-      if (rows[i].text.trim()) {
-        output.push(rows[i].text.trim());
-      }
-      i++;
-      continue;
-    }
+  return { rows, globalColumns, globalColumnGap };
+}
 
-    // Found start of a table region
-    const regionStart = i;
-    while (i < rows.length && rows[i].isTableRow) {
-      i++;
-    }
+function formatTable(
+  tableRows: RowInfo[],
+  globalColumns: number[],
+  globalColumnGap: number,
+): string[] {
+  return renderTable(buildTableCells(tableRows, globalColumns, globalColumnGap));
+}
 
-    // Format this table region
-    const tableRows = rows.slice(regionStart, i);
-    const numCols = globalColumns.length;
-
-    const mdRows: string[][] = [];
-    const colBuffer = Math.max(globalColumnGap * 0.5, 4);
-    for (const row of tableRows) {
-      const cells = new Array<string>(numCols).fill("");
-      for (const word of row.words) {
-        // Assign word to column based on range
-        let assignedCol = numCols - 1;
-        for (let c = 0; c < numCols - 1; c++) {
-          if (word.x0 < globalColumns[c + 1] - colBuffer) {
-            assignedCol = c;
-            break;
-          }
+function buildTableCells(
+  tableRows: RowInfo[],
+  globalColumns: number[],
+  globalColumnGap: number,
+): string[][] {
+  const numCols = globalColumns.length;
+
+  const mdRows: string[][] = [];
+  const colBuffer = Math.max(globalColumnGap * 0.5, 4);
+  for (const row of tableRows) {
+    const cells = new Array<string>(numCols).fill("");
+    for (const word of row.words) {
+      // Assign word to column based on range
+      let assignedCol = numCols - 1;
+      for (let c = 0; c < numCols - 1; c++) {
+        if (word.x0 < globalColumns[c + 1] - colBuffer) {
+          assignedCol = c;
+          break;
         }
-        cells[assignedCol] =
-          cells[assignedCol] ? `${cells[assignedCol]} ${word.text}` : word.text;
       }
-      mdRows.push(cells);
+      cells[assignedCol] =
+        cells[assignedCol] ? `${cells[assignedCol]} ${word.text}` : word.text;
     }
+    mdRows.push(cells);
+  }
 
-    const merged = mergeLogicalRows(mdRows);
-    if (merged.length > 0) {
-      // Header
-      output.push("| " + merged[0].join(" | ") + " |");
-      output.push("| " + merged[0].map(() => "---").join(" | ") + " |");
-      for (let r = 1; r < merged.length; r++) {
-        output.push("| " + merged[r].join(" | ") + " |");
-      }
+  return mergeLogicalRows(mdRows);
+}
+
+function renderTable(merged: string[][]): string[] {
+  const output: string[] = [];
+  if (merged.length > 0) {
+    // Header
+    output.push("| " + merged[0].join(" | ") + " |");
+    output.push("| " + merged[0].map(() => "---").join(" | ") + " |");
+    for (let r = 1; r < merged.length; r++) {
+      output.push("| " + merged[r].join(" | ") + " |");
     }
   }
-
-  const result = output.join("\n").trim();
-  return result || null;
+  return output;
 }
 
 /**
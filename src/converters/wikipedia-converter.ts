@@ -0,0 +1,98 @@
+import * as cheerio from "cheerio";
+import {
+  DocumentConverter,
+  WarningCollector,
+  documentSections,
+  type StreamInfo,
+  type ConversionResult,
+  type ConvertOptions,
+} from "../base-converter.js";
+import {
+  convertHtmlString,
+  decodeHtml,
+  exportDataUriImages,
+  isHtmlStream,
+  readHtmlMetadata,
+  withDocumentUrl,
+} from "./html-converter.js";
+import { rewriteHtmlUrls } from "./html-urls.js";
+import { ImageExporter } from "../images.js";
+
+const WIKIPEDIA_URL = /^https?:\/\/[a-z0-9-]+\.(m\.)?wikipedia\.org\//i;
+
+/** Infoboxes, navigation boxes, maintenance banners and edit chrome */
+const NOISE_SELECTOR = [
+  ".infobox",
+  ".navbox",
+  ".vertical-navbox",
+  ".sidebar",
+  ".metadata",
+  ".ambox",
+  ".hatnote",
+  ".shortdescription",
+  ".noprint",
+  ".mw-editsection",
+  ".mw-jump-link",
+  ".mw-empty-elt",
+  ".printfooter",
+  "#coordinates",
+  "#toc",
+  ".toc",
+  "sup.reference",
+  "sup.noprint",
+  ".reference-accessdate",
+  "link",
+].join(", ");
+
+export class WikipediaConverter extends DocumentConverter {
+  accepts(input: Buffer, info: StreamInfo): boolean {
+    if (!isHtmlStream(info)) return false;
+    if (info.url && WIKIPEDIA_URL.test(info.url)) return true;
+    // Saved or mirrored pages: MediaWiki article markup
+    return (
+      input.includes('content="MediaWiki') &&
+      input.includes('id="mw-content-text"')
+    );
+  }
+
+  async convert(
+    input: Buffer,
+    info: StreamInfo,
+    convertOptions?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const options = withDocumentUrl(convertOptions, info);
+    const warnings = new WarningCollector(options);
+    const $ = cheerio.load(decodeHtml(input, info, warnings));
+    $("script, style, noscript").remove();
+    // Resolve against the page's <base> before fragments are cut out
+    rewriteHtmlUrls($, options);
+
+    const content = $("div#mw-content-text").first();
+    if (content.length === 0) {
+      throw new Error("No Wikipedia article body found");
+    }
+
+    const title =
+      $("span.mw-page-title-main").first().text().trim() ||
+      $("#firstHeading").first().text().trim() ||
+      $("title").first().text().trim() ||
+      undefined;
+
+    content.find(NOISE_SELECTOR).remove();
+
+    const metadata = readHtmlMetadata($);
+    if (title) metadata.title = title;
+
+    const html = content.html() ?? "";
+    const exported = await exportDataUriImages(html, new ImageExporter(options));
+    const body = convertHtmlString(html, options, exported).markdown;
+    const markdown = title ? `# ${title}\n\n${body}`.trim() : body;
+    return {
+      markdown,
+      title,
+      metadata,
+      sections: documentSections(markdown),
+      warnings: warnings.warnings,
+    };
+  }
+}
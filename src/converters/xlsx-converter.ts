@@ -1,11 +1,20 @@
 import ExcelJS from "exceljs";
+import JSZip from "jszip";
 import {
   DocumentConverter,
+  joinChunks,
+  WarningCollector,
+  throwIfAborted,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type DocumentMetadata,
+  type ConversionProgress,
 } from "../base-converter.js";
 import { convertHtmlString } from "./html-converter.js";
+import { readCoreProperties } from "./ooxml-properties.js";
+import { checkArchive, checkLimit } from "../limits.js";
 
 const XLSX_EXTENSIONS = new Set([".xlsx"]);
 const XLSX_MIMETYPES = new Set([
@@ -24,52 +33,121 @@ export class XlsxConverter extends DocumentConverter {
     _info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(input as unknown as ExcelJS.Buffer);
-
-    const parts: string[] = [];
+    const zip = await JSZip.loadAsync(input);
+    const workbook = await loadWorkbook(input, zip, options);
+    const { markdown, sections } = joinChunks([
+      ...renderSheets(workbook, options),
+    ]);
+    // Read core properties the same way as DOCX and PPTX do
+    const warnings = new WarningCollector(options);
+    const metadata: DocumentMetadata = {
+      ...(await readCoreProperties(zip, warnings)),
+      sheetNames: workbookSheets(workbook).map((sheet) => sheet.name),
+    };
+    return {
+      markdown,
+      title: metadata.title,
+      metadata,
+      sections,
+      warnings: warnings.warnings,
+    };
+  }
 
-    workbook.eachSheet((sheet) => {
-      parts.push(`## ${sheet.name}\n`);
+  async *convertIter(
+    input: Buffer,
+    _info: StreamInfo,
+    options?: ConvertOptions,
+  ): AsyncGenerator<ConversionChunk> {
+    const zip = await JSZip.loadAsync(input);
+    yield* renderSheets(await loadWorkbook(input, zip, options), options);
+  }
+}
 
-      const rows: string[][] = [];
-      sheet.eachRow((row) => {
-        const cells: string[] = [];
-        row.eachCell({ includeEmpty: true }, (cell) => {
-          cells.push(cellToString(cell));
-        });
-        rows.push(cells);
-      });
+/** Parse the workbook once the archive is known to be within the limits */
+async function loadWorkbook(
+  input: Buffer,
+  zip: JSZip,
+  options?: ConvertOptions,
+): Promise<ExcelJS.Workbook> {
+  await checkArchive(zip, options);
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(input as unknown as ExcelJS.Buffer);
+  checkLimit(options, "maxSheets", workbookSheets(workbook).length);
+  return workbook;
+}
 
-      if (rows.length === 0) return;
+function* renderSheets(
+  workbook: ExcelJS.Workbook,
+  options?: ConvertOptions,
+): Generator<ConversionChunk> {
+  const sheets = workbookSheets(workbook);
+  for (let index = 0; index < sheets.length; index++) {
+    const progress: ConversionProgress = {
+      unit: "sheet",
+      current: index,
+      total: sheets.length,
+    };
+    throwIfAborted(options?.signal, progress);
+    options?.onProgress?.(progress);
+    const sheet = sheets[index];
+    yield {
+      markdown: convertSheet(sheet, options),
+      location: { unit: "sheet", index: index + 1, name: sheet.name },
+    };
+  }
+  options?.onProgress?.({
+    unit: "sheet",
+    current: sheets.length,
+    total: sheets.length,
+  });
+}
 
-      // Normalize all rows to the same column count
-      const maxCols = Math.max(...rows.map((r) => r.length));
-      for (const row of rows) {
-        while (row.length < maxCols) row.push("");
-      }
+function workbookSheets(workbook: ExcelJS.Workbook): ExcelJS.Worksheet[] {
+  const sheets: ExcelJS.Worksheet[] = [];
+  workbook.eachSheet((sheet) => {
+    sheets.push(sheet);
+  });
+  return sheets;
+}
 
-      // Build HTML table, then convert to markdown
-      let html = "<table><thead><tr>";
-      for (const cell of rows[0]) {
-        html += `<th>${escapeHtml(cell)}</th>`;
-      }
-      html += "</tr></thead><tbody>";
-      for (let i = 1; i < rows.length; i++) {
-        html += "<tr>";
-        for (const cell of rows[i]) {
-          html += `<td>${escapeHtml(cell)}</td>`;
-        }
-        html += "</tr>";
-      }
-      html += "</tbody></table>";
+function convertSheet(sheet: ExcelJS.Worksheet, options?: ConvertOptions): string {
+  const heading = `## ${sheet.name}\n`;
 
-      const { markdown } = convertHtmlString(html, options);
-      parts.push(markdown);
+  const rows: string[][] = [];
+  sheet.eachRow((row) => {
+    checkLimit(options, "maxRows", rows.length + 1);
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell) => {
+      cells.push(cellToString(cell));
     });
+    rows.push(cells);
+  });
+
+  if (rows.length === 0) return heading.trim();
 
-    return { markdown: parts.join("\n\n").trim() };
+  // Normalize all rows to the same column count
+  const maxCols = Math.max(...rows.map((r) => r.length));
+  for (const row of rows) {
+    while (row.length < maxCols) row.push("");
   }
+
+  // Build HTML table, then convert to markdown
+  let html = "<table><thead><tr>";
+  for (const cell of rows[0]) {
+    html += `<th>${escapeHtml(cell)}</th>`;
+  }
+  html += "</tr></thead><tbody>";
+  for (let i = 1; i < rows.length; i++) {
+    html += "<tr>";
+    for (const cell of rows[i]) {
+      html += `<td>${escapeHtml(cell)}</td>`;
+    }
+    html += "</tr>";
+  }
+  html += "</tbody></table>";
+
+  const { markdown } = convertHtmlString(html, options);
+  return `${heading}\n\n${markdown}`;
 }
 
 function cellToString(cell: ExcelJS.Cell): string {
@@ -1,9 +1,13 @@
+import { StringDecoder } from "node:string_decoder";
 import { XMLParser } from "fast-xml-parser";
 import {
   DocumentConverter,
+  joinChunks,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type DocumentMetadata,
 } from "../base-converter.js";
 import { convertHtmlString } from "./html-converter.js";
 
@@ -36,125 +40,328 @@ export class XmlRssConverter extends DocumentConverter {
     _info: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const xml = input.toString("utf-8");
-    const parsed = parser.parse(xml);
+    const feed = readFeed(parser.parse(input.toString("utf-8")), options);
+    const { markdown, sections } = joinChunks([...feedChunks(feed, options)]);
+    return {
+      markdown,
+      title: feed.header.title,
+      metadata: feed.metadata,
+      sections,
+    };
+  }
 
-    // RSS feed
-    if (parsed.rss?.channel) {
-      return this.convertRss(parsed.rss.channel, options);
-    }
+  async *convertIter(
+    input: Buffer,
+    _info: StreamInfo,
+    options?: ConvertOptions,
+  ): AsyncGenerator<ConversionChunk> {
+    const feed = readFeed(parser.parse(input.toString("utf-8")), options);
+    yield* feedChunks(feed, options);
+  }
+
+  /**
+   * Consume the feed incrementally: each complete `<item>`/`<entry>` is
+   * parsed and rendered as soon as it has arrived, and only the channel
+   * metadata around the items is kept until the end.
+   */
+  async convertStream(
+    input: AsyncIterable<Buffer>,
+    _info: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const decoder = new StringDecoder("utf-8");
+    let pending = "";
+    let skeleton = "";
+    let kind: "rss" | "atom" | undefined;
+    const itemChunks: ConversionChunk[] = [];
+
+    const drain = () => {
+      while (true) {
+        kind ??= detectFeedKind(pending);
+        if (!kind) return;
+        const tag = kind === "rss" ? "item" : "entry";
+        const start = pending.search(new RegExp(`<${tag}[\\s>]`));
+        if (start < 0) {
+          // Keep a tail in case an opening tag is split across chunks
+          const keep = Math.max(0, pending.length - tag.length - 2);
+          skeleton += pending.slice(0, keep);
+          pending = pending.slice(keep);
+          return;
+        }
+        const closing = `</${tag}>`;
+        const end = pending.indexOf(closing, start);
+        if (end < 0) {
+          skeleton += pending.slice(0, start);
+          pending = pending.slice(start);
+          return;
+        }
+        skeleton += pending.slice(0, start);
+        const element = pending.slice(start, end + closing.length);
+        pending = pending.slice(end + closing.length);
 
-    // Atom feed
-    if (parsed.feed) {
-      return this.convertAtom(parsed.feed, options);
+        options?.onProgress?.({ unit: "item", current: itemChunks.length });
+        const parsed = parser.parse(element)[tag];
+        itemChunks.push({
+          markdown: (kind === "rss"
+            ? renderRssItem(parsed, options)
+            : renderAtomEntry(parsed, options)
+          )
+            .join("\n\n")
+            .trim(),
+          location: {
+            unit: "item",
+            index: itemChunks.length + 1,
+            name: kind === "rss" ? rssItemTitle(parsed) : atomEntryTitle(parsed),
+          },
+        });
+      }
+    };
+
+    for await (const chunk of input) {
+      pending += decoder.write(chunk);
+      drain();
     }
+    pending += decoder.end();
+    drain();
+    skeleton += pending;
+    const total = itemChunks.length;
+    options?.onProgress?.({ unit: "item", current: total, total });
 
-    throw new Error("Not a recognized RSS or Atom feed");
+    // The skeleton is the feed with its items cut out
+    const feed = readFeed(parser.parse(skeleton), options);
+    const { markdown, sections } = joinChunks([
+      ...feedChunks(feed),
+      ...itemChunks,
+    ]);
+    return {
+      markdown,
+      title: feed.header.title,
+      metadata: { ...feed.metadata, itemCount: total },
+      sections,
+    };
   }
 
   private isFeed(input: Buffer): boolean {
+    const xml = input.toString("utf-8");
     try {
-      const xml = input.toString("utf-8");
       const parsed = parser.parse(xml);
-      return !!(parsed.rss?.channel || parsed.feed);
+      if (parsed.rss?.channel || parsed.feed) return true;
     } catch {
-      return false;
+      // Fall through: input may be the truncated head of a stream
     }
+    return FEED_ROOT.test(xml);
   }
+}
 
-  private convertRss(
-    channel: any,
-    options?: ConvertOptions,
-  ): ConversionResult {
-    const parts: string[] = [];
-    const title = channel.title;
-
-    if (title) {
-      parts.push(`# ${title}`);
-    }
-    if (channel.description) {
-      parts.push(String(channel.description));
-    }
+interface Feed {
+  header: { parts: string[]; title?: string };
+  items: any[];
+  renderItem: (item: any) => string[];
+  itemTitle: (item: any) => string;
+  metadata: DocumentMetadata;
+}
 
+function readFeed(parsed: any, options?: ConvertOptions): Feed {
+  if (parsed.rss?.channel) {
+    const channel = parsed.rss.channel;
     const items = asArray(channel.item);
-    for (const item of items) {
-      const itemTitle = item.title ? String(item.title) : "Untitled";
-      const link = item.link ? String(item.link) : "";
-
-      if (link) {
-        parts.push(`## [${itemTitle}](${link})`);
-      } else {
-        parts.push(`## ${itemTitle}`);
-      }
+    return {
+      header: renderRssHeader(channel),
+      items,
+      renderItem: (item) => renderRssItem(item, options),
+      itemTitle: rssItemTitle,
+      metadata: { ...rssMetadata(channel), itemCount: items.length },
+    };
+  }
+  if (parsed.feed) {
+    const items = asArray(parsed.feed.entry);
+    return {
+      header: renderAtomHeader(parsed.feed),
+      items,
+      renderItem: (entry) => renderAtomEntry(entry, options),
+      itemTitle: atomEntryTitle,
+      metadata: { ...atomMetadata(parsed.feed), itemCount: items.length },
+    };
+  }
+  throw new Error("Not a recognized RSS or Atom feed");
+}
 
-      if (item.description) {
-        const desc = String(item.description);
-        // Description might contain HTML
-        if (desc.includes("<")) {
-          const { markdown } = convertHtmlString(desc, options);
-          parts.push(markdown);
-        } else {
-          parts.push(desc);
-        }
-      }
+/** The header as a "document" chunk, then one chunk per item */
+function* feedChunks(
+  feed: Feed,
+  options?: ConvertOptions,
+): Generator<ConversionChunk> {
+  const total = feed.items.length;
+  if (feed.header.parts.length > 0) {
+    yield {
+      markdown: feed.header.parts.join("\n\n").trim(),
+      location: { unit: "document", name: feed.header.title },
+    };
+  }
+  for (let index = 0; index < total; index++) {
+    options?.onProgress?.({ unit: "item", current: index, total });
+    yield {
+      markdown: feed.renderItem(feed.items[index]).join("\n\n").trim(),
+      location: {
+        unit: "item",
+        index: index + 1,
+        name: feed.itemTitle(feed.items[index]),
+      },
+    };
+  }
+  options?.onProgress?.({ unit: "item", current: total, total });
+}
 
-      if (item["content:encoded"]) {
-        const content = String(item["content:encoded"]);
-        const { markdown } = convertHtmlString(content, options);
-        parts.push(markdown);
-      }
-    }
+/** Matches a document whose root element is <rss> or <feed> */
+const FEED_ROOT =
+  /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<(rss|feed)[\s>]/;
+
+function detectFeedKind(xml: string): "rss" | "atom" | undefined {
+  const match = /<(rss|feed)[\s>]/.exec(xml);
+  if (!match) return undefined;
+  return match[1] === "rss" ? "rss" : "atom";
+}
+
+function atomText(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === "object" ? value["#text"] ?? value : String(value);
+}
 
-    return { markdown: parts.join("\n\n").trim(), title: title ? String(title) : undefined };
+function renderRssHeader(channel: any): { parts: string[]; title?: string } {
+  const parts: string[] = [];
+  const title = channel.title;
+
+  if (title) {
+    parts.push(`# ${title}`);
+  }
+  if (channel.description) {
+    parts.push(String(channel.description));
   }
 
-  private convertAtom(
-    feed: any,
-    options?: ConvertOptions,
-  ): ConversionResult {
-    const parts: string[] = [];
-    const title = feed.title;
+  return { parts, title: title ? String(title) : undefined };
+}
 
-    if (title) {
-      parts.push(`# ${typeof title === "object" ? title["#text"] ?? title : title}`);
-    }
-    if (feed.subtitle) {
-      parts.push(String(feed.subtitle));
-    }
+function rssItemTitle(item: any): string {
+  return item.title ? String(item.title) : "Untitled";
+}
 
-    const entries = asArray(feed.entry);
-    for (const entry of entries) {
-      const entryTitle = entry.title
-        ? typeof entry.title === "object"
-          ? entry.title["#text"] ?? entry.title
-          : String(entry.title)
-        : "Untitled";
+function rssMetadata(channel: any): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  if (channel.title) metadata.title = String(channel.title);
+  if (channel.description) metadata.description = String(channel.description);
+  // <atom:link> siblings turn <link> into an array
+  const link = asArray(channel.link).find((l) => typeof l === "string");
+  if (link) metadata.link = link;
+  if (channel.language) metadata.language = String(channel.language);
+  const modified = isoDate(channel.lastBuildDate ?? channel.pubDate);
+  if (modified) metadata.modified = modified;
+  return metadata;
+}
 
-      const link = entry.link?.["@_href"] ?? "";
+function atomEntryTitle(entry: any): string {
+  return String(atomText(entry.title) ?? "Untitled");
+}
 
-      if (link) {
-        parts.push(`## [${entryTitle}](${link})`);
-      } else {
-        parts.push(`## ${entryTitle}`);
-      }
+function atomMetadata(feed: any): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const title = atomText(feed.title);
+  if (title) metadata.title = String(title);
+  const subtitle = atomText(feed.subtitle);
+  if (subtitle) metadata.description = String(subtitle);
+  const links = asArray<any>(feed.link);
+  const link =
+    links.find((l) => !l["@_rel"] || l["@_rel"] === "alternate") ?? links[0];
+  if (link?.["@_href"]) metadata.link = link["@_href"];
+  if (feed["@_xml:lang"]) metadata.language = String(feed["@_xml:lang"]);
+  const author = atomText(asArray<any>(feed.author)[0]?.name);
+  if (author) metadata.author = String(author);
+  const modified = isoDate(atomText(feed.updated));
+  if (modified) metadata.modified = modified;
+  return metadata;
+}
 
-      const content = entry.content ?? entry.summary;
-      if (content) {
-        const text = typeof content === "object" ? content["#text"] ?? "" : String(content);
-        if (text.includes("<")) {
-          const { markdown } = convertHtmlString(text, options);
-          parts.push(markdown);
-        } else {
-          parts.push(text);
-        }
-      }
+function isoDate(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function renderRssItem(item: any, options?: ConvertOptions): string[] {
+  const parts: string[] = [];
+  const itemTitle = item.title ? String(item.title) : "Untitled";
+  const link = item.link ? String(item.link) : "";
+
+  if (link) {
+    parts.push(`## [${itemTitle}](${link})`);
+  } else {
+    parts.push(`## ${itemTitle}`);
+  }
+
+  if (item.description) {
+    const desc = String(item.description);
+    // Description might contain HTML
+    if (desc.includes("<")) {
+      const { markdown } = convertHtmlString(desc, options);
+      parts.push(markdown);
+    } else {
+      parts.push(desc);
     }
+  }
 
-    return {
-      markdown: parts.join("\n\n").trim(),
-      title: title ? String(typeof title === "object" ? title["#text"] ?? title : title) : undefined,
-    };
+  if (item["content:encoded"]) {
+    const content = String(item["content:encoded"]);
+    const { markdown } = convertHtmlString(content, options);
+    parts.push(markdown);
+  }
+
+  return parts;
+}
+
+function renderAtomHeader(feed: any): { parts: string[]; title?: string } {
+  const parts: string[] = [];
+  const title = feed.title;
+
+  if (title) {
+    parts.push(`# ${typeof title === "object" ? title["#text"] ?? title : title}`);
+  }
+  if (feed.subtitle) {
+    parts.push(String(feed.subtitle));
   }
+
+  return {
+    parts,
+    title: title ? String(typeof title === "object" ? title["#text"] ?? title : title) : undefined,
+  };
+}
+
+function renderAtomEntry(entry: any, options?: ConvertOptions): string[] {
+  const parts: string[] = [];
+  const entryTitle = entry.title
+    ? typeof entry.title === "object"
+      ? entry.title["#text"] ?? entry.title
+      : String(entry.title)
+    : "Untitled";
+
+  const link = entry.link?.["@_href"] ?? "";
+
+  if (link) {
+    parts.push(`## [${entryTitle}](${link})`);
+  } else {
+    parts.push(`## ${entryTitle}`);
+  }
+
+  const content = entry.content ?? entry.summary;
+  if (content) {
+    const text = typeof content === "object" ? content["#text"] ?? "" : String(content);
+    if (text.includes("<")) {
+      const { markdown } = convertHtmlString(text, options);
+      parts.push(markdown);
+    } else {
+      parts.push(text);
+    }
+  }
+
+  return parts;
 }
 
 function asArray<T>(val: T | T[] | undefined | null): T[] {
@@ -1,3 +1,11 @@
+import type {
+  ConversionProgress,
+  ConversionWarning,
+  ResourceLimits,
+  SourceLocation,
+  WarningCode,
+} from "./base-converter.js";
+
 export class MdizeError extends Error {
   constructor(message: string) {
     super(message);
@@ -33,3 +41,94 @@ export class MissingDependencyError extends MdizeError {
     this.name = "MissingDependencyError";
   }
 }
+
+export class UrlFetchError extends MdizeError {
+  url: string;
+  status?: number;
+
+  constructor(message: string, url: string, status?: number) {
+    super(message);
+    this.name = "UrlFetchError";
+    this.url = url;
+    this.status = status;
+  }
+}
+
+/**
+ * Raised in strict mode where a converter would otherwise degrade its
+ * output and report a warning: a skipped slide, an empty OCR result, a
+ * charset fallback, and so on.
+ */
+export class DegradedConversionError extends MdizeError {
+  code: WarningCode;
+  location?: SourceLocation;
+
+  constructor(warning: ConversionWarning) {
+    const where = warning.location ? ` (${describeLocation(warning.location)})` : "";
+    super(`${warning.message}${where}`);
+    this.name = "DegradedConversionError";
+    this.code = warning.code;
+    this.location = warning.location;
+    if (warning.cause !== undefined) this.cause = warning.cause;
+  }
+}
+
+/**
+ * Raised when `ConvertOptions.signal` aborts or `timeoutMs` runs out. The
+ * abort reason is the cause.
+ */
+export class ConversionAbortedError extends MdizeError {
+  /** How many pages, slides or sheets were converted before the abort */
+  progress?: ConversionProgress;
+
+  constructor(reason: unknown, progress?: ConversionProgress) {
+    const timedOut = reason instanceof Error && reason.name === "TimeoutError";
+    let message = timedOut ? "Conversion timed out" : "Conversion aborted";
+    if (progress) {
+      const of = progress.total === undefined ? "" : ` of ${progress.total}`;
+      message += ` after ${progress.current}${of} ${progress.unit}s`;
+    }
+    super(message);
+    this.name = "ConversionAbortedError";
+    this.progress = progress;
+    if (reason !== undefined) this.cause = reason;
+  }
+}
+
+const LIMIT_UNITS: Record<keyof ResourceLimits, string> = {
+  maxInputBytes: "bytes",
+  maxUncompressedBytes: "uncompressed bytes",
+  maxArchiveEntries: "archive entries",
+  maxPages: "pages",
+  maxSlides: "slides",
+  maxSheets: "sheets",
+  maxRows: "rows",
+  maxOutputLength: "characters of output",
+};
+
+/**
+ * Raised when an input goes over one of the `ResourceLimits`, before or
+ * during its conversion. Other converters are not tried.
+ */
+export class ResourceLimitError extends MdizeError {
+  limit: keyof ResourceLimits;
+  max: number;
+  actual: number;
+
+  constructor(limit: keyof ResourceLimits, max: number, actual: number) {
+    super(
+      `Input exceeds ${limit}: ${actual} ${LIMIT_UNITS[limit]}, limit ${max}`,
+    );
+    this.name = "ResourceLimitError";
+    this.limit = limit;
+    this.max = max;
+    this.actual = actual;
+  }
+}
+
+function describeLocation(location: SourceLocation): string {
+  const parts: string[] = [location.unit];
+  if (location.index !== undefined) parts.push(String(location.index));
+  if (location.name) parts.push(`"${location.name}"`);
+  return parts.join(" ");
+}
@@ -0,0 +1,256 @@
+import { extname } from "node:path";
+import { throwIfAborted, type StreamInfo } from "./base-converter.js";
+import { ResourceLimitError, UrlFetchError } from "./errors.js";
+
+export type FetchLike = (
+  input: string,
+  init?: {
+    redirect?: "manual" | "follow" | "error";
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+  },
+) => Promise<Response>;
+
+export interface FetchUrlOptions {
+  /** fetch implementation to use. Default: the global fetch */
+  fetch?: FetchLike;
+  /** Maximum number of redirects to follow. Default: 5 */
+  maxRedirects?: number;
+  /** Maximum response body size in bytes. Default: 50 MiB */
+  maxBytes?: number;
+  /** Timeout for the whole download in milliseconds. Default: 30000 */
+  timeoutMs?: number;
+  /**
+   * Extra request headers. They are only sent to the requested URL's
+   * origin: a redirect to another origin drops them, credentials included.
+   */
+  headers?: Record<string, string>;
+  /** Abort the download; it fails with `ConversionAbortedError` */
+  signal?: AbortSignal;
+  /**
+   * The conversion's `limits.maxInputBytes`: a larger body fails with
+   * `ResourceLimitError`, as a larger file would
+   */
+  maxInputBytes?: number;
+}
+
+export interface FetchedDocument {
+  buffer: Buffer;
+  info: StreamInfo;
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export function isHttpUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Download a document over HTTP(S), following redirects manually so the
+ * count can be capped, and describe it with a StreamInfo built from the
+ * response headers and the final URL.
+ */
+export async function fetchUrl(
+  url: string,
+  options?: FetchUrlOptions,
+): Promise<FetchedDocument> {
+  const fetchImpl = options?.fetch ?? (globalThis.fetch as FetchLike);
+  const maxRedirects = options?.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const maxInputBytes = options?.maxInputBytes ?? Infinity;
+  const maxBytes = Math.min(
+    options?.maxBytes ?? DEFAULT_MAX_BYTES,
+    maxInputBytes,
+  );
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options?.signal;
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener("abort", abort, { once: true });
+
+  try {
+    let currentUrl = url;
+    let headers = options?.headers;
+    let response: Response;
+    let redirects = 0;
+
+    while (true) {
+      try {
+        response = await fetchImpl(currentUrl, {
+          redirect: "manual",
+          signal: controller.signal,
+          headers,
+        });
+      } catch (err) {
+        throwIfAborted(signal);
+        throw fetchFailure(currentUrl, err, controller.signal, timeoutMs);
+      }
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= maxRedirects) {
+          throw new UrlFetchError(
+            `Too many redirects (max ${maxRedirects}) fetching ${url}`,
+            currentUrl,
+          );
+        }
+        const next = new URL(location, currentUrl);
+        if (next.origin !== new URL(currentUrl).origin) headers = undefined;
+        currentUrl = next.href;
+        redirects++;
+        continue;
+      }
+      break;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new UrlFetchError(
+        `HTTP ${response.status} fetching ${currentUrl}`,
+        currentUrl,
+        response.status,
+      );
+    }
+
+    const finalUrl = currentUrl;
+    const status = response.status;
+    const tooLarge = (size: number, message: string): Error =>
+      maxBytes === maxInputBytes
+        ? new ResourceLimitError("maxInputBytes", maxBytes, size)
+        : new UrlFetchError(message, finalUrl, status);
+
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (declaredLength > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge(
+        declaredLength,
+        `Response of ${declaredLength} bytes exceeds the ${maxBytes} byte limit`,
+      );
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await readBody(response, maxBytes, (size) =>
+        tooLarge(size, `Response exceeds the ${maxBytes} byte limit`),
+      );
+    } catch (err) {
+      if (err instanceof UrlFetchError || err instanceof ResourceLimitError) {
+        throw err;
+      }
+      throwIfAborted(signal);
+      throw fetchFailure(currentUrl, err, controller.signal, timeoutMs);
+    }
+
+    return { buffer, info: buildStreamInfo(currentUrl, response.headers) };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+async function readBody(
+  response: Response,
+  maxBytes: number,
+  tooLarge: (size: number) => Error,
+): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(size);
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function buildStreamInfo(url: string, headers: Headers): StreamInfo {
+  const info: StreamInfo = { url };
+
+  const contentType = headers.get("content-type");
+  if (contentType) {
+    const [mimetype, ...params] = contentType.split(";");
+    if (mimetype.trim()) info.mimetype = mimetype.trim().toLowerCase();
+    const charset = getHeaderParam(params, "charset");
+    if (charset) info.charset = charset.toLowerCase();
+  }
+
+  const filename =
+    parseContentDispositionFilename(headers.get("content-disposition")) ??
+    filenameFromUrl(url);
+  if (filename) {
+    info.filename = filename;
+    const ext = extname(filename).toLowerCase();
+    if (ext) info.extension = ext;
+  }
+
+  return info;
+}
+
+function parseContentDispositionFilename(
+  header: string | null,
+): string | undefined {
+  if (!header) return undefined;
+  const params = header.split(";").slice(1);
+
+  // RFC 5987 extended value takes precedence: filename*=UTF-8''name.pdf
+  const extended = getHeaderParam(params, "filename*");
+  if (extended) {
+    const match = /^([^']*)'[^']*'(.*)$/.exec(extended);
+    try {
+      return decodeURIComponent(match ? match[2] : extended);
+    } catch {
+      // Malformed percent-encoding, fall back to the plain parameter
+    }
+  }
+
+  return getHeaderParam(params, "filename");
+}
+
+function getHeaderParam(params: string[], name: string): string | undefined {
+  for (const param of params) {
+    const eq = param.indexOf("=");
+    if (eq < 0) continue;
+    if (param.slice(0, eq).trim().toLowerCase() !== name) continue;
+    const value = param.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+    return value || undefined;
+  }
+  return undefined;
+}
+
+function filenameFromUrl(url: string): string | undefined {
+  const segment = new URL(url).pathname.split("/").pop();
+  if (!segment) return undefined;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function fetchFailure(
+  url: string,
+  err: unknown,
+  signal: AbortSignal,
+  timeoutMs: number,
+): UrlFetchError {
+  if (signal.aborted) {
+    return new UrlFetchError(`Timed out after ${timeoutMs}ms fetching ${url}`, url);
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new UrlFetchError(`Failed to fetch ${url}: ${message}`, url);
+}
@@ -0,0 +1,95 @@
+import { readdir, stat } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+
+export interface ExpandedInput {
+  /** Directory the files' relative paths are taken from */
+  base: string;
+  /** Matching files, sorted */
+  files: string[];
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Expand a batch input: a glob pattern (`*`, `**`, `?`, `[...]`, `{a,b}`),
+ * a directory (every file below it) or a single file. A path that does not
+ * exist is returned as is, so reading it fails like any other input.
+ * Hidden files and directories are skipped while walking.
+ */
+export async function expandInput(
+  input: string,
+  cwd = process.cwd(),
+): Promise<ExpandedInput> {
+  const segments = input.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+
+  if (firstGlob < 0) {
+    const path = resolve(cwd, input);
+    const stats = await stat(path).catch(() => undefined);
+    if (stats?.isDirectory()) {
+      return { base: path, files: await walk(path) };
+    }
+    return { base: dirname(path), files: [path] };
+  }
+
+  const base = resolve(cwd, segments.slice(0, firstGlob).join("/") || ".");
+  const pattern = globToRegExp(segments.slice(firstGlob).join("/"));
+  const files = (await walk(base)).filter((file) =>
+    pattern.test(relative(base, file).split(sep).join("/")),
+  );
+  return { base, files };
+}
+
+/** Compile a glob over `/`-separated relative paths */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        const slash = glob[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end < 0) {
+        source += "\\[";
+        continue;
+      }
+      // "[!abc]" negates like "[^abc]"
+      const body = glob.slice(i + 1, end).replace(/^!/, "^");
+      source += `[${body.replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (c === "{") {
+      braces++;
+      source += "(?:";
+    } else if (c === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (c === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += c.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(path)));
+    else if (entry.isFile()) files.push(path);
+  }
+  return files.sort();
+}
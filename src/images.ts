@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import type { ConvertOptions } from "./base-converter.js";
+
+/**
+ * Receives an image embedded in a document and returns the path or URL
+ * the Markdown should link to it by. `suggestedName` is a file name with
+ * an extension for `mimetype`, unique within the conversion.
+ */
+export type ImageHandler = (
+  bytes: Buffer,
+  mimetype: string,
+  suggestedName: string,
+) => string | Promise<string>;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/bmp": ".bmp",
+  "image/tiff": ".tiff",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "image/x-emf": ".emf",
+  "image/x-wmf": ".wmf",
+};
+
+const MIMETYPES: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(EXTENSIONS).map(([mimetype, ext]) => [ext, mimetype]),
+  ),
+  ".jpeg": "image/jpeg",
+  ".tif": "image/tiff",
+};
+
+/** The image mimetype for a file name, from its extension */
+export function imageMimetype(name: string): string {
+  const ext = /\.[^./]+$/.exec(name)?.[0].toLowerCase() ?? "";
+  return MIMETYPES[ext] ?? "application/octet-stream";
+}
+
+/**
+ * Exports the images of one conversion to `onImage`, or else writes them
+ * to `imageDir`, and remembers the path to link to. Identical images are
+ * exported once. Files in `imageDir` are named after the image and its
+ * content hash, so documents can share a directory.
+ */
+export class ImageExporter {
+  /** Paths by content hash */
+  private readonly paths = new Map<string, Promise<string>>();
+  private readonly names = new Set<string>();
+
+  constructor(private readonly options?: ConvertOptions) {}
+
+  /** Whether the options ask for images to be exported */
+  get enabled(): boolean {
+    return !!(this.options?.onImage || this.options?.imageDir);
+  }
+
+  /**
+   * Export an image, returning the path to link to. `name` is a
+   * suggestion without extension, e.g. "image1".
+   */
+  export(bytes: Buffer, mimetype: string, name: string): Promise<string> {
+    const hash = createHash("sha256").update(bytes).digest("hex");
+    let path = this.paths.get(hash);
+    if (!path) {
+      path = this.save(bytes, mimetype, this.uniqueName(name, mimetype), hash);
+      this.paths.set(hash, path);
+    }
+    return path;
+  }
+
+  private async save(
+    bytes: Buffer,
+    mimetype: string,
+    name: string,
+    hash: string,
+  ): Promise<string> {
+    const { onImage, imageDir, markdownDir } = this.options ?? {};
+    if (onImage) return onImage(bytes, mimetype, name);
+
+    const dot = name.lastIndexOf(".");
+    const file = join(
+      imageDir!,
+      `${name.slice(0, dot)}-${hash.slice(0, 8)}${name.slice(dot)}`,
+    );
+    await mkdir(imageDir!, { recursive: true });
+    await writeFile(file, bytes);
+    const link = markdownDir === undefined ? file : relative(markdownDir, file);
+    // Markdown links use forward slashes on every platform
+    return link.split(sep).join("/");
+  }
+
+  private uniqueName(name: string, mimetype: string): string {
+    const ext = EXTENSIONS[mimetype] ?? ".bin";
+    const stem = name.replace(/[^\w.-]+/g, "_") || "image";
+    let unique = `${stem}${ext}`;
+    for (let n = 2; this.names.has(unique); n++) unique = `${stem}-${n}${ext}`;
+    this.names.add(unique);
+    return unique;
+  }
+}
@@ -1,22 +1,61 @@
 export { Mdize, PRIORITY_SPECIFIC, PRIORITY_GENERIC } from "./mdize.js";
 export type { MdizeOptions } from "./mdize.js";
+export type {
+  ConvertManyOptions,
+  BatchEntry,
+  BatchSummary,
+  BatchResult,
+} from "./batch.js";
+export type { ConverterWorkerOptions } from "./worker-pool.js";
+export type { ImageHandler } from "./images.js";
+export {
+  MemoryCache,
+  FileSystemCache,
+  cacheKey,
+  type ConversionCache,
+  type MemoryCacheOptions,
+} from "./cache.js";
 export {
   DocumentConverter,
+  joinChunks,
+  documentSections,
+  WarningCollector,
+  throwIfAborted,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type SourceLocation,
+  type DocumentMetadata,
+  type Section,
+  type ConversionWarning,
+  type WarningCode,
+  type ConversionProgress,
+  type ResourceLimits,
 } from "./base-converter.js";
+export type {
+  FetchUrlOptions,
+  FetchLike,
+} from "./fetch-url.js";
+export type { StreamSource, WebReadableStream } from "./stream-utils.js";
 export {
   MdizeError,
   UnsupportedFormatError,
   FileConversionError,
   MissingDependencyError,
+  UrlFetchError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  ResourceLimitError,
   type FailedConversionAttempt,
 } from "./errors.js";
 export {
   PlainTextConverter,
   HtmlConverter,
   convertHtmlString,
+  WikipediaConverter,
+  StackExchangeConverter,
+  GitHubIssueConverter,
   CsvConverter,
   DocxConverter,
   XlsxConverter,
@@ -25,9 +64,11 @@ export {
   ImageConverter,
   XmlRssConverter,
   detectTables,
+  detectTableRegions,
   mergeMasterFormatNumbering,
 } from "./converters/index.js";
 export type {
   PositionedWord,
   TableDetectorOptions,
+  TableRegion,
 } from "./converters/index.js";
@@ -0,0 +1,63 @@
+import type JSZip from "jszip";
+import type { ConvertOptions, ResourceLimits } from "./base-converter.js";
+import { ResourceLimitError } from "./errors.js";
+
+/** Throw `ResourceLimitError` if `actual` is over the configured `limit` */
+export function checkLimit(
+  options: ConvertOptions | undefined,
+  limit: keyof ResourceLimits,
+  actual: number,
+): void {
+  const max = options?.limits?.[limit];
+  if (max !== undefined && actual > max) {
+    throw new ResourceLimitError(limit, max, actual);
+  }
+}
+
+/**
+ * Check an OOXML package's entry count, then inflate every entry,
+ * counting the bytes that come out and stopping once they pass
+ * `maxUncompressedBytes`. The sizes the archive declares are not trusted.
+ * Run this before handing the package to a parser that inflates it.
+ */
+export async function checkArchive(
+  zip: JSZip,
+  options?: ConvertOptions,
+): Promise<void> {
+  const entries = Object.values(zip.files);
+  checkLimit(options, "maxArchiveEntries", entries.length);
+  if (options?.limits?.maxUncompressedBytes === undefined) return;
+
+  let size = 0;
+  for (const entry of entries) {
+    if (entry.dir) continue;
+    await new Promise<void>((resolve, reject) => {
+      const stream = entry.nodeStream("nodebuffer");
+      stream.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        try {
+          checkLimit(options, "maxUncompressedBytes", size);
+        } catch (err) {
+          // Stop inflating the rest of the entry
+          stream.pause();
+          reject(err);
+        }
+      });
+      stream.on("error", reject);
+      stream.on("end", resolve);
+    });
+  }
+}
+
+/** Pass chunks through, failing once more than `maxInputBytes` went by */
+export async function* limitBytes(
+  source: AsyncIterable<Buffer>,
+  options?: ConvertOptions,
+): AsyncGenerator<Buffer> {
+  let size = 0;
+  for await (const chunk of source) {
+    size += chunk.length;
+    checkLimit(options, "maxInputBytes", size);
+    yield chunk;
+  }
+}
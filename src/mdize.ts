@@ -1,19 +1,45 @@
-import { readFile } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import { extname, basename } from "node:path";
 import { fileTypeFromBuffer } from "file-type";
 import {
   DocumentConverter,
+  WarningCollector,
+  throwIfAborted,
   type StreamInfo,
   type ConversionResult,
   type ConvertOptions,
+  type ConversionChunk,
+  type ResourceLimits,
 } from "./base-converter.js";
 import {
+  MdizeError,
   UnsupportedFormatError,
   FileConversionError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  ResourceLimitError,
   type FailedConversionAttempt,
 } from "./errors.js";
+import {
+  toAsyncIterable,
+  peekStream,
+  readAll,
+  type StreamSource,
+} from "./stream-utils.js";
+import { fetchUrl, isHttpUrl, type FetchUrlOptions } from "./fetch-url.js";
+import {
+  runBatch,
+  type BatchResult,
+  type ConvertManyOptions,
+} from "./batch.js";
+import { WorkerPool, type ConverterWorkerOptions } from "./worker-pool.js";
+import { cacheKey, type ConversionCache } from "./cache.js";
+import { checkLimit, limitBytes } from "./limits.js";
 import { XmlRssConverter } from "./converters/xml-rss-converter.js";
 import { HtmlConverter } from "./converters/html-converter.js";
+import { WikipediaConverter } from "./converters/wikipedia-converter.js";
+import { StackExchangeConverter } from "./converters/stackexchange-converter.js";
+import { GitHubIssueConverter } from "./converters/github-issue-converter.js";
 import { PdfConverter } from "./converters/pdf-converter.js";
 import { DocxConverter } from "./converters/docx-converter.js";
 import { PptxConverter } from "./converters/pptx-converter.js";
@@ -25,6 +51,9 @@ import { PlainTextConverter } from "./converters/plain-text-converter.js";
 export const PRIORITY_SPECIFIC = 0.0;
 export const PRIORITY_GENERIC = 10.0;
 
+/** Bytes read ahead of a stream for format sniffing and `accepts` checks */
+const STREAM_PEEK_SIZE = 16 * 1024;
+
 interface ConverterRegistration {
   converter: DocumentConverter;
   priority: number;
@@ -33,43 +62,220 @@ interface ConverterRegistration {
 export interface MdizeOptions {
   /** If false, no built-in converters are registered. Default: true */
   enableBuiltins?: boolean;
+  /** Defaults for `convertUrl` (fetch implementation, limits, headers) */
+  fetch?: FetchUrlOptions;
+  /**
+   * Convert on a pool of this many worker threads so that PDF layout
+   * analysis and OCR do not block the calling thread. Workers use the
+   * built-in converters only. `convertIter` still runs in-process.
+   * Default: 0 (convert on the calling thread)
+   */
+  workers?: number;
+  /** Passed to each worker thread, e.g. `resourceLimits` */
+  workerOptions?: ConverterWorkerOptions;
+  /**
+   * Reuse results of earlier conversions of the same bytes with the same
+   * format, converter and options, e.g. a `MemoryCache` or `FileSystemCache`
+   */
+  cache?: ConversionCache;
+  /** Defaults for `ConvertOptions.limits`; limits given per call win */
+  limits?: ResourceLimits;
 }
 
 export class Mdize {
   private registrations: ConverterRegistration[] = [];
+  private fetchOptions?: FetchUrlOptions;
+  private pool?: WorkerPool;
+  private cache?: ConversionCache;
+  private limits?: ResourceLimits;
 
   constructor(options?: MdizeOptions) {
+    this.fetchOptions = options?.fetch;
+    this.cache = options?.cache;
+    this.limits = options?.limits;
     const enableBuiltins = options?.enableBuiltins ?? true;
     if (enableBuiltins) {
       this.registerBuiltins();
     }
+    if (options?.workers && options.workers > 0) {
+      this.pool = new WorkerPool(options.workers, options.workerOptions);
+    }
   }
 
   register(converter: DocumentConverter, priority = PRIORITY_SPECIFIC): void {
+    if (this.pool) {
+      throw new MdizeError(
+        "Converters cannot be registered when converting on worker threads",
+      );
+    }
     this.registrations.push({ converter, priority });
   }
 
+  /** Stop the worker threads, if any. Pending conversions are rejected. */
+  async close(): Promise<void> {
+    await this.pool?.close();
+  }
+
   async convert(
     source: string | Buffer,
     options?: ConvertOptions & { streamInfo?: StreamInfo },
   ): Promise<ConversionResult> {
     if (typeof source === "string") {
+      if (isHttpUrl(source)) {
+        return this.convertUrl(source, options);
+      }
       return this.convertFile(source, options);
     }
     return this.convertBuffer(source, options?.streamInfo, options);
   }
 
+  /**
+   * Download and convert an HTTP(S) resource. StreamInfo is filled from the
+   * response headers, and the final URL (after redirects) is passed to the
+   * converters so relative links can be resolved.
+   */
+  async convertUrl(
+    url: string,
+    options?: ConvertOptions & {
+      streamInfo?: StreamInfo;
+      fetch?: FetchUrlOptions;
+    },
+  ): Promise<ConversionResult> {
+    const { fetch, streamInfo, ...rest } = options ?? {};
+    // The timeout and the caller's signal cover the download too
+    const timed = withTimeout(this.withLimits(rest));
+    const convertOptions = timed.options ?? {};
+    try {
+      const { buffer, info } = await fetchUrl(url, {
+        ...this.fetchOptions,
+        ...fetch,
+        signal: convertOptions.signal ?? fetch?.signal,
+        maxInputBytes: convertOptions.limits?.maxInputBytes,
+      });
+      return await this.convertLoaded(
+        buffer,
+        { ...info, ...streamInfo },
+        { ...convertOptions, url: convertOptions.url ?? info.url },
+        true,
+      );
+    } finally {
+      timed.release();
+    }
+  }
+
   async convertFile(
     filePath: string,
-    options?: ConvertOptions,
+    options?: ConvertOptions & { streamInfo?: StreamInfo },
   ): Promise<ConversionResult> {
-    const buffer = await readFile(filePath);
-    const info: StreamInfo = {
-      filename: basename(filePath),
-      localPath: filePath,
-      extension: extname(filePath).toLowerCase(),
-    };
-    return this.convertBuffer(buffer, info, options);
+    options = this.withLimits(options);
+    const buffer = await readInput(filePath, options);
+    return this.convertLoaded(
+      buffer,
+      fileStreamInfo(filePath, options?.streamInfo),
+      options,
+      true,
+    );
+  }
+
+  /**
+   * Convert a batch of files given as paths, directories (every file below
+   * them) or glob patterns such as `docs/**` or `*.pdf`, several at a time.
+   * Each file's result or error is reported in its entry; with
+   * `outputDir` the Markdown is also written out mirroring the input tree.
+   */
+  async convertMany(
+    inputs: string | string[],
+    options: ConvertManyOptions = {},
+  ): Promise<BatchResult> {
+    return runBatch(
+      typeof inputs === "string" ? [inputs] : inputs,
+      options,
+      (path, fileOptions) => this.convertFile(path, fileOptions),
+    );
+  }
+
+  /**
+   * Convert progressively, yielding Markdown per page, slide, sheet or feed
+   * item as soon as it is ready. Converters without incremental support
+   * yield a single chunk for the whole document.
+   */
+  async *convertIter(
+    source: string | Buffer,
+    options?: ConvertOptions & { streamInfo?: StreamInfo },
+  ): AsyncGenerator<ConversionChunk> {
+    const timed = withTimeout(this.withLimits(options));
+    try {
+      yield* this.iterateChunks(source, timed.options);
+    } finally {
+      timed.release();
+    }
+  }
+
+  private async *iterateChunks(
+    source: string | Buffer,
+    options?: ConvertOptions & { streamInfo?: StreamInfo },
+  ): AsyncGenerator<ConversionChunk> {
+    let buffer: Buffer;
+    let info: StreamInfo | undefined;
+    if (typeof source === "string") {
+      buffer = await readInput(source, options);
+      info = fileStreamInfo(source, options?.streamInfo);
+    } else {
+      buffer = source;
+      info = options?.streamInfo;
+      checkLimit(options, "maxInputBytes", buffer.length);
+    }
+
+    // No result to attach warnings to: they only reach `onWarning`
+    const warnings = new WarningCollector(options);
+    const resolvedInfo = await this.resolveStreamInfo(
+      buffer,
+      warnings,
+      info,
+      options,
+    );
+    const attempts: FailedConversionAttempt[] = [];
+
+    for (const { converter } of this.sortedRegistrations()) {
+      throwIfAborted(options?.signal);
+      if (!converter.accepts(buffer, resolvedInfo)) {
+        continue;
+      }
+      let yielded = false;
+      let length = 0;
+      try {
+        if (converter.convertIter) {
+          for await (const chunk of converter.convertIter(
+            buffer,
+            resolvedInfo,
+            options,
+          )) {
+            length += chunk.markdown.length;
+            checkLimit(options, "maxOutputLength", length);
+            if (!yielded) reportFallbacks(warnings, attempts);
+            yielded = true;
+            yield chunk;
+          }
+        } else {
+          const result = await converter.convert(buffer, resolvedInfo, options);
+          checkLimit(options, "maxOutputLength", result.markdown.length);
+          reportFallbacks(warnings, attempts);
+          yielded = true;
+          yield { markdown: result.markdown, location: { unit: "document" } };
+        }
+        return;
+      } catch (err) {
+        if (isFinal(err)) throw err;
+        attempts.push({
+          converter: converter.constructor.name,
+          error: err instanceof Error ? err : new Error(String(err)),
+        });
+        // Chunks already handed out cannot be taken back by a fallback
+        if (yielded) break;
+      }
+    }
+
+    throw this.conversionFailure(resolvedInfo, attempts);
   }
 
   async convertBuffer(
@@ -77,20 +283,186 @@ export class Mdize {
     info?: StreamInfo,
     options?: ConvertOptions,
   ): Promise<ConversionResult> {
-    const resolvedInfo = await this.resolveStreamInfo(buffer, info);
-    const sorted = [...this.registrations].sort(
-      (a, b) => a.priority - b.priority,
+    return this.convertLoaded(buffer, info, options, false);
+  }
+
+  /**
+   * Convert a Node Readable, web ReadableStream or async iterable of bytes.
+   * Converters that implement `convertStream` consume it incrementally;
+   * for all others the stream is read into memory first, as it is when
+   * converting on worker threads or with a cache.
+   */
+  async convertStream(
+    source: StreamSource,
+    info?: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const timed = withTimeout(this.withLimits(options));
+    try {
+      return await this.consumeStream(source, info, timed.options);
+    } finally {
+      timed.release();
+    }
+  }
+
+  private async consumeStream(
+    source: StreamSource,
+    info?: StreamInfo,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
+    const input = limitBytes(toAsyncIterable(source), options);
+    if (this.pool || this.cache) {
+      const buffer = await readAll(input);
+      return this.convertLoaded(buffer, info, options, true);
+    }
+    const { prefix, stream, ended } = await peekStream(input, STREAM_PEEK_SIZE);
+    const warnings = new WarningCollector(options);
+    const resolvedInfo = await this.resolveStreamInfo(
+      prefix,
+      warnings,
+      info,
+      options,
+    );
+
+    // The whole input fit in the peek window
+    if (ended) {
+      return this.runConverters(prefix, resolvedInfo, warnings, options);
+    }
+
+    for (const { converter } of this.sortedRegistrations()) {
+      throwIfAborted(options?.signal);
+      if (!converter.accepts(prefix, resolvedInfo)) {
+        continue;
+      }
+      if (!converter.convertStream) {
+        break;
+      }
+      // A consumed stream cannot be handed to the next converter
+      try {
+        const result = await converter.convertStream(
+          stream,
+          resolvedInfo,
+          options,
+        );
+        checkLimit(options, "maxOutputLength", result.markdown.length);
+        return withWarnings(result, warnings);
+      } catch (err) {
+        if (isFinal(err)) throw err;
+        throw new FileConversionError(
+          `Streaming conversion failed for ${resolvedInfo.filename ?? "input"}`,
+          [
+            {
+              converter: converter.constructor.name,
+              error: err instanceof Error ? err : new Error(String(err)),
+            },
+          ],
+        );
+      }
+    }
+
+    const buffer = await readAll(stream);
+    return this.runConverters(buffer, resolvedInfo, warnings, options);
+  }
+
+  /**
+   * Convert a buffer on a worker or in-process, going through the cache
+   * if there is one. `owned` buffers were read by `Mdize` itself, so their
+   * memory can be moved to the worker.
+   */
+  private async convertLoaded(
+    buffer: Buffer,
+    info: StreamInfo | undefined,
+    options: ConvertOptions | undefined,
+    owned: boolean,
+  ): Promise<ConversionResult> {
+    const timed = withTimeout(this.withLimits(options));
+    try {
+      return await this.convertOnce(buffer, info, timed.options, owned);
+    } finally {
+      timed.release();
+    }
+  }
+
+  private async convertOnce(
+    buffer: Buffer,
+    info: StreamInfo | undefined,
+    options: ConvertOptions | undefined,
+    owned: boolean,
+  ): Promise<ConversionResult> {
+    checkLimit(options, "maxInputBytes", buffer.length);
+    if (this.pool && !this.cache) {
+      return this.pool.convert(buffer, info, options, owned);
+    }
+
+    // Workers resolve the info again and report its warnings themselves
+    const warnings = new WarningCollector(this.pool ? undefined : options);
+    const resolvedInfo = await this.resolveStreamInfo(
+      buffer,
+      warnings,
+      info,
+      options,
+    );
+    // Hashed now: the buffer may be detached once it goes to a worker
+    const key = this.cacheKeyFor(buffer, resolvedInfo, options);
+    if (key) {
+      const cached = await this.cache!.get(key);
+      if (cached) {
+        for (const warning of cached.warnings ?? []) {
+          options?.onWarning?.(warning);
+        }
+        return cached;
+      }
+    }
+
+    const result = this.pool
+      ? await this.pool.convert(buffer, info, options, owned)
+      : await this.runConverters(buffer, resolvedInfo, warnings, options);
+    if (key) await this.cache!.set(key, result);
+    return result;
+  }
+
+  /** The cache key for the first converter that accepts the input */
+  private cacheKeyFor(
+    buffer: Buffer,
+    resolvedInfo: StreamInfo,
+    options?: ConvertOptions,
+  ): string | undefined {
+    // Cached results would skip handing their images to onImage or
+    // writing them to imageDir
+    if (!this.cache || options?.onImage || options?.imageDir) return undefined;
+    const registration = this.sortedRegistrations().find(({ converter }) =>
+      converter.accepts(buffer, resolvedInfo),
     );
+    return registration
+      ? cacheKey(
+          buffer,
+          resolvedInfo,
+          registration.converter.constructor.name,
+          options,
+        )
+      : undefined;
+  }
 
+  private async runConverters(
+    buffer: Buffer,
+    resolvedInfo: StreamInfo,
+    warnings: WarningCollector,
+    options?: ConvertOptions,
+  ): Promise<ConversionResult> {
     const attempts: FailedConversionAttempt[] = [];
 
-    for (const { converter } of sorted) {
+    for (const { converter } of this.sortedRegistrations()) {
+      throwIfAborted(options?.signal);
       if (!converter.accepts(buffer, resolvedInfo)) {
         continue;
       }
       try {
-        return await converter.convert(buffer, resolvedInfo, options);
+        const result = await converter.convert(buffer, resolvedInfo, options);
+        checkLimit(options, "maxOutputLength", result.markdown.length);
+        reportFallbacks(warnings, attempts);
+        return withWarnings(result, warnings);
       } catch (err) {
+        if (isFinal(err)) throw err;
         attempts.push({
           converter: converter.constructor.name,
           error: err instanceof Error ? err : new Error(String(err)),
@@ -98,24 +470,48 @@ export class Mdize {
       }
     }
 
+    throw this.conversionFailure(resolvedInfo, attempts);
+  }
+
+  private conversionFailure(
+    resolvedInfo: StreamInfo,
+    attempts: FailedConversionAttempt[],
+  ): Error {
     if (attempts.length > 0) {
-      throw new FileConversionError(
+      return new FileConversionError(
         `All matching converters failed for ${resolvedInfo.filename ?? "input"}`,
         attempts,
       );
     }
 
-    throw new UnsupportedFormatError(
+    return new UnsupportedFormatError(
       `No converter found for ${resolvedInfo.filename ?? "input"} (mimetype: ${resolvedInfo.mimetype ?? "unknown"}, ext: ${resolvedInfo.extension ?? "unknown"})`,
     );
   }
 
+  /** Put the instance's default limits under the call's own */
+  private withLimits<T extends ConvertOptions>(
+    options: T | undefined,
+  ): T | undefined {
+    if (!this.limits) return options;
+    return { ...options, limits: { ...this.limits, ...options?.limits } } as T;
+  }
+
+  private sortedRegistrations(): ConverterRegistration[] {
+    return [...this.registrations].sort((a, b) => a.priority - b.priority);
+  }
+
   private async resolveStreamInfo(
     buffer: Buffer,
+    warnings: WarningCollector,
     info?: StreamInfo,
+    options?: ConvertOptions,
   ): Promise<StreamInfo> {
     const resolved: StreamInfo = { ...info };
 
+    // Let site-specific converters see the URL given as an option
+    if (!resolved.url && options?.url) resolved.url = options.url;
+
     if (!resolved.mimetype || !resolved.extension) {
       try {
         const detected = await fileTypeFromBuffer(buffer);
@@ -123,8 +519,11 @@ export class Mdize {
           if (!resolved.mimetype) resolved.mimetype = detected.mime;
           if (!resolved.extension) resolved.extension = `.${detected.ext}`;
         }
-      } catch {
-        // file-type detection failed, continue with what we have
+      } catch (err) {
+        // Continue with what the hints say
+        warnings.warn("type-detection-failed", "Could not detect file type", {
+          cause: err,
+        });
       }
     }
 
@@ -134,6 +533,10 @@ export class Mdize {
   private registerBuiltins(): void {
     // Specific format converters (priority 0.0)
     this.register(new XmlRssConverter());
+    // Site-specific HTML converters must come before the generic one
+    this.register(new WikipediaConverter());
+    this.register(new StackExchangeConverter());
+    this.register(new GitHubIssueConverter());
     this.register(new HtmlConverter());
     this.register(new PdfConverter());
     this.register(new DocxConverter());
@@ -146,3 +549,87 @@ export class Mdize {
     this.register(new PlainTextConverter(), PRIORITY_GENERIC);
   }
 }
+
+/**
+ * Turn `timeoutMs` into a signal converters can check. The timeout is
+ * consumed so that it starts only once per conversion. `release` detaches
+ * from the caller's signal once the conversion has settled.
+ */
+function withTimeout<T extends ConvertOptions>(
+  options: T | undefined,
+): { options: T | undefined; release: () => void } {
+  if (options?.timeoutMs === undefined) return { options, release: () => {} };
+  const timeout = AbortSignal.timeout(options.timeoutMs);
+  if (!options.signal) {
+    return {
+      options: { ...options, signal: timeout, timeoutMs: undefined },
+      release: () => {},
+    };
+  }
+
+  // Follow whichever fires first (AbortSignal.any needs Node 20.3)
+  const controller = new AbortController();
+  const detach = [options.signal, timeout].map((source) => {
+    const abort = () => controller.abort(source.reason);
+    if (source.aborted) abort();
+    else source.addEventListener("abort", abort, { once: true });
+    return () => source.removeEventListener("abort", abort);
+  });
+  return {
+    options: { ...options, signal: controller.signal, timeoutMs: undefined },
+    release: () => detach.forEach((remove) => remove()),
+  };
+}
+
+/** Errors that another converter would not avoid */
+function isFinal(err: unknown): boolean {
+  return (
+    err instanceof DegradedConversionError ||
+    err instanceof ConversionAbortedError ||
+    err instanceof ResourceLimitError
+  );
+}
+
+/** Tell the caller that converters failed before the one that succeeded */
+function reportFallbacks(
+  warnings: WarningCollector,
+  attempts: FailedConversionAttempt[],
+): void {
+  for (const attempt of attempts) {
+    warnings.warn("converter-failed", `${attempt.converter} failed`, {
+      cause: attempt.error,
+    });
+  }
+}
+
+/** Put the registry's own warnings ahead of the converter's */
+function withWarnings(
+  result: ConversionResult,
+  warnings: WarningCollector,
+): ConversionResult {
+  return {
+    ...result,
+    warnings: [...warnings.warnings, ...(result.warnings ?? [])],
+  };
+}
+
+/** Read a file, checking its size against `maxInputBytes` first */
+async function readInput(
+  filePath: string,
+  options?: ConvertOptions,
+): Promise<Buffer> {
+  if (options?.limits?.maxInputBytes !== undefined) {
+    checkLimit(options, "maxInputBytes", (await stat(filePath)).size);
+  }
+  return readFile(filePath);
+}
+
+function fileStreamInfo(filePath: string, hints?: StreamInfo): StreamInfo {
+  // Explicit hints take precedence over what the path implies
+  return {
+    filename: basename(filePath),
+    localPath: filePath,
+    extension: extname(filePath).toLowerCase() || undefined,
+    ...hints,
+  };
+}
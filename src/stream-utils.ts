@@ -0,0 +1,105 @@
+import type { Readable } from "node:stream";
+
+/** Minimal shape of a WHATWG ReadableStream, so DOM typings are not needed */
+export interface WebReadableStream {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: Uint8Array }>;
+    releaseLock(): void;
+    cancel(reason?: unknown): Promise<void>;
+  };
+}
+
+/** Anything `Mdize.convertStream` can read document bytes from */
+export type StreamSource =
+  | Readable
+  | WebReadableStream
+  | AsyncIterable<Uint8Array | string>;
+
+export interface PeekedStream {
+  /** The first bytes of the stream (at least `minBytes` unless it ended) */
+  prefix: Buffer;
+  /** The full stream, starting again from the first byte */
+  stream: AsyncIterable<Buffer>;
+  /** True when the whole stream fit in the prefix */
+  ended: boolean;
+}
+
+export function toAsyncIterable(source: StreamSource): AsyncIterable<Buffer> {
+  if (isWebReadableStream(source)) {
+    return readWebStream(source);
+  }
+  return normalizeChunks(source as AsyncIterable<Uint8Array | string>);
+}
+
+/**
+ * Read chunks until at least `minBytes` are buffered, without losing
+ * them: the returned `stream` replays the prefix before the rest.
+ */
+export async function peekStream(
+  source: AsyncIterable<Buffer>,
+  minBytes: number,
+): Promise<PeekedStream> {
+  const iterator = source[Symbol.asyncIterator]();
+  const head: Buffer[] = [];
+  let size = 0;
+  let ended = false;
+
+  while (size < minBytes) {
+    const next = await iterator.next();
+    if (next.done) {
+      ended = true;
+      break;
+    }
+    head.push(next.value);
+    size += next.value.length;
+  }
+
+  async function* replay(): AsyncGenerator<Buffer> {
+    yield* head;
+    if (ended) return;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+
+  return { prefix: Buffer.concat(head), stream: replay(), ended };
+}
+
+export async function readAll(source: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function isWebReadableStream(source: StreamSource): source is WebReadableStream {
+  return (
+    typeof (source as WebReadableStream).getReader === "function" &&
+    !(Symbol.asyncIterator in source)
+  );
+}
+
+async function* readWebStream(stream: WebReadableStream): AsyncGenerator<Buffer> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield Buffer.from(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* normalizeChunks(
+  source: AsyncIterable<Uint8Array | string>,
+): AsyncGenerator<Buffer> {
+  for await (const chunk of source) {
+    if (typeof chunk === "string") yield Buffer.from(chunk);
+    else yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+  }
+}
@@ -0,0 +1,286 @@
+import { Worker, type WorkerOptions } from "node:worker_threads";
+import {
+  throwIfAborted,
+  type ConversionProgress,
+  type ConversionResult,
+  type ConversionWarning,
+  type ConvertOptions,
+  type StreamInfo,
+} from "./base-converter.js";
+import { MdizeError, ConversionAbortedError } from "./errors.js";
+import { fromCloneable, toCloneable } from "./clone.js";
+
+/** Settings handed to each worker thread, e.g. `resourceLimits` */
+export type ConverterWorkerOptions = Pick<
+  WorkerOptions,
+  "execArgv" | "env" | "resourceLimits"
+>;
+
+/** Messages from the pool to a worker */
+export type WorkerRequest =
+  | {
+      type: "convert";
+      id: number;
+      input: Uint8Array;
+      info?: StreamInfo;
+      options: ConvertOptions;
+      /** Whether to send images to the pool for `onImage` */
+      onImage: boolean;
+    }
+  | { type: "abort"; id: number; reason: unknown }
+  | {
+      type: "image";
+      id: number;
+      image: number;
+      /** The path `onImage` returned, or the error it threw */
+      path?: string;
+      error?: unknown;
+    };
+
+/** Messages from a worker to the pool; errors are sent through `toCloneable` */
+export type WorkerResponse =
+  | { type: "warning"; id: number; warning: unknown }
+  | { type: "progress"; id: number; progress: ConversionProgress }
+  | {
+      type: "image";
+      id: number;
+      image: number;
+      bytes: Uint8Array;
+      mimetype: string;
+      name: string;
+    }
+  | { type: "result"; id: number; result: unknown }
+  | { type: "error"; id: number; error: unknown };
+
+interface Job {
+  id: number;
+  input: Buffer;
+  /** The buffer's memory can be moved to the worker instead of copied */
+  transfer: boolean;
+  info?: StreamInfo;
+  options?: ConvertOptions;
+  resolve: (result: ConversionResult) => void;
+  reject: (err: unknown) => void;
+  stopWatching: () => void;
+}
+
+const WORKER_SCRIPT = new URL("./worker.js", import.meta.url);
+
+/**
+ * Runs conversions on up to `size` worker threads, one conversion per
+ * thread at a time. Threads start on first use and do not keep the
+ * process alive while idle. Callbacks and the abort signal stay on the
+ * calling thread and are bridged over messages.
+ */
+export class WorkerPool {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Job>();
+  private readonly queue: Job[] = [];
+  private nextId = 0;
+  private closed = false;
+
+  constructor(
+    private readonly size: number,
+    private readonly workerOptions?: ConverterWorkerOptions,
+  ) {}
+
+  /**
+   * Convert `input` on a worker. With `transfer`, the buffer is detached
+   * from the calling thread when it owns its whole memory.
+   */
+  convert(
+    input: Buffer,
+    info: StreamInfo | undefined,
+    options: ConvertOptions | undefined,
+    transfer: boolean,
+  ): Promise<ConversionResult> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) throw new MdizeError("The worker pool has been closed");
+      const signal = options?.signal;
+      throwIfAborted(signal);
+
+      const job: Job = {
+        id: this.nextId++,
+        input,
+        transfer,
+        info,
+        options,
+        resolve,
+        reject,
+        stopWatching: () => {},
+      };
+      if (signal) {
+        const onAbort = () => this.abort(job, signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        job.stopWatching = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /** Stop all threads; queued and running conversions are rejected */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      job.stopWatching();
+      job.reject(new MdizeError("The worker pool has been closed"));
+    }
+    await Promise.all([...this.workers].map((worker) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker =
+        this.idle.pop() ??
+        (this.workers.size < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+      this.start(worker, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(WORKER_SCRIPT, this.workerOptions);
+    worker.on("message", (message: WorkerResponse) =>
+      this.receive(worker, message),
+    );
+    worker.on("error", (err) => this.remove(worker, err));
+    worker.on("exit", (code) =>
+      this.remove(
+        worker,
+        new MdizeError(
+          this.closed
+            ? "The worker pool has been closed"
+            : `Conversion worker exited with code ${code}`,
+        ),
+      ),
+    );
+    this.workers.add(worker);
+    return worker;
+  }
+
+  private start(worker: Worker, job: Job): void {
+    const { input } = job;
+    const ownsMemory =
+      input.byteOffset === 0 && input.byteLength === input.buffer.byteLength;
+    const transferList =
+      job.transfer && ownsMemory ? [input.buffer as ArrayBuffer] : [];
+    // Functions and the signal cannot cross threads; they are bridged
+    const { onWarning, onProgress, onImage, signal, ...options } =
+      job.options ?? {};
+
+    this.running.set(worker, job);
+    worker.ref();
+    try {
+      worker.postMessage(
+        {
+          type: "convert",
+          id: job.id,
+          input,
+          info: job.info,
+          options: toCloneable(options) as ConvertOptions,
+          onImage: !!onImage,
+        } satisfies WorkerRequest,
+        transferList,
+      );
+    } catch (err) {
+      this.finish(worker, job);
+      job.reject(err);
+    }
+  }
+
+  private receive(worker: Worker, message: WorkerResponse): void {
+    const job = this.running.get(worker);
+    if (!job || job.id !== message.id) return;
+    try {
+      switch (message.type) {
+        case "warning":
+          job.options?.onWarning?.(
+            fromCloneable(message.warning) as ConversionWarning,
+          );
+          break;
+        case "progress":
+          job.options?.onProgress?.(message.progress);
+          break;
+        case "image":
+          void this.exportImage(worker, job, message);
+          break;
+        case "result":
+          this.finish(worker, job);
+          job.resolve(fromCloneable(message.result) as ConversionResult);
+          break;
+        case "error":
+          this.finish(worker, job);
+          job.reject(fromCloneable(message.error));
+          break;
+      }
+    } catch (err) {
+      // A callback threw: fail the conversion as it would in-process
+      this.running.delete(worker);
+      job.stopWatching();
+      job.reject(err);
+      void worker.terminate();
+    }
+  }
+
+  /** Pass an image to `onImage` and send the worker the path or error */
+  private async exportImage(
+    worker: Worker,
+    job: Job,
+    message: Extract<WorkerResponse, { type: "image" }>,
+  ): Promise<void> {
+    const { id, image, bytes, mimetype, name } = message;
+    let reply: WorkerRequest;
+    try {
+      const path = await job.options!.onImage!(
+        Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+        mimetype,
+        name,
+      );
+      reply = { type: "image", id, image, path };
+    } catch (err) {
+      reply = { type: "image", id, image, error: toCloneable(err) };
+    }
+    if (this.running.get(worker) === job) worker.postMessage(reply);
+  }
+
+  private abort(job: Job, reason: unknown): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      job.reject(new ConversionAbortedError(reason));
+      return;
+    }
+    for (const [worker, running] of this.running) {
+      if (running !== job) continue;
+      worker.postMessage({
+        type: "abort",
+        id: job.id,
+        reason: toCloneable(reason),
+      } satisfies WorkerRequest);
+    }
+  }
+
+  private finish(worker: Worker, job: Job): void {
+    job.stopWatching();
+    this.running.delete(worker);
+    this.idle.push(worker);
+    worker.unref();
+    this.dispatch();
+  }
+
+  /** Forget a thread that crashed or exited, failing its conversion */
+  private remove(worker: Worker, err: unknown): void {
+    if (!this.workers.delete(worker)) return;
+    const index = this.idle.indexOf(worker);
+    if (index >= 0) this.idle.splice(index, 1);
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    if (job) {
+      job.stopWatching();
+      job.reject(err);
+    }
+    if (!this.closed) this.dispatch();
+  }
+}
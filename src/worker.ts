@@ -0,0 +1,75 @@
+import { parentPort } from "node:worker_threads";
+import { Mdize } from "./mdize.js";
+import { fromCloneable, toCloneable } from "./clone.js";
+import type { WorkerRequest, WorkerResponse } from "./worker-pool.js";
+
+/**
+ * Entry point of the threads started by `WorkerPool`. Converts each
+ * buffer it is sent with the built-in converters and posts back warnings
+ * and progress as they happen, then the result or error.
+ */
+const port = parentPort!;
+const mdize = new Mdize();
+const controllers = new Map<number, AbortController>();
+/** Images sent to the pool for `onImage`, waiting for their path */
+const images = new Map<
+  number,
+  { resolve: (path: string) => void; reject: (err: unknown) => void }
+>();
+let nextImage = 0;
+
+port.on("message", (request: WorkerRequest) => {
+  if (request.type === "abort") {
+    controllers.get(request.id)?.abort(fromCloneable(request.reason));
+    return;
+  }
+  if (request.type === "image") {
+    const pending = images.get(request.image);
+    images.delete(request.image);
+    if (request.error !== undefined) {
+      pending?.reject(fromCloneable(request.error));
+    } else {
+      pending?.resolve(request.path!);
+    }
+    return;
+  }
+  void convert(request);
+});
+
+async function convert({
+  id,
+  input,
+  info,
+  options,
+  onImage,
+}: Extract<WorkerRequest, { type: "convert" }>): Promise<void> {
+  const post = (response: WorkerResponse) => port.postMessage(response);
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    const result = await mdize.convertBuffer(
+      Buffer.from(input.buffer, input.byteOffset, input.byteLength),
+      info,
+      {
+        ...options,
+        signal: controller.signal,
+        onWarning: (warning) =>
+          post({ type: "warning", id, warning: toCloneable(warning) }),
+        onProgress: (progress) => post({ type: "progress", id, progress }),
+        onImage: onImage
+          ? (bytes, mimetype, name) =>
+              new Promise((resolve, reject) => {
+                const image = nextImage++;
+                images.set(image, { resolve, reject });
+                post({ type: "image", id, image, bytes, mimetype, name });
+              })
+          : undefined,
+      },
+    );
+    post({ type: "result", id, result: toCloneable(result) });
+  } catch (err) {
+    post({ type: "error", id, error: toCloneable(err) });
+  } finally {
+    controllers.delete(id);
+  }
+}
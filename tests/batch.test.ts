@@ -0,0 +1,151 @@
+import {
+  copyFile,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { Mdize, FileConversionError } from "../src/index.js";
+
+const TEST_FILES = join(import.meta.dirname, "test-files");
+
+describe("Mdize.convertMany", () => {
+  const mdize = new Mdize();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mdize-batch-"));
+    await mkdir(join(dir, "docs", "sub"), { recursive: true });
+    await writeFile(join(dir, "docs", "notes.txt"), "plain notes");
+    await writeFile(join(dir, "docs", "sub", "data.csv"), "a,b\n1,2\n");
+    await writeFile(join(dir, "docs", "sub", "config.json"), '{"k": 1}');
+    await writeFile(join(dir, "docs", "broken.pdf"), "not a pdf");
+    await writeFile(join(dir, "docs", ".hidden.txt"), "skipped");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("converts every file below a directory and reports failures", async () => {
+    const { entries, summary } = await mdize.convertMany(join(dir, "docs"), {
+      continueOnError: true,
+    });
+
+    expect(entries.map((e) => e.path)).toEqual([
+      join(dir, "docs", "broken.pdf"),
+      join(dir, "docs", "notes.txt"),
+      join(dir, "docs", "sub", "config.json"),
+      join(dir, "docs", "sub", "data.csv"),
+    ]);
+    expect(entries[1].result?.markdown).toBe("plain notes");
+    expect(entries[3].result?.markdown).toContain("| a | b |");
+
+    const failed = entries[0].error;
+    expect(failed).toBeInstanceOf(FileConversionError);
+    expect((failed as FileConversionError).attempts[0].converter).toBe(
+      "PdfConverter",
+    );
+    expect(summary).toMatchObject({ total: 4, converted: 3, failed: 1 });
+  });
+
+  it("throws the first failure unless continueOnError is set", async () => {
+    await expect(
+      mdize.convertMany(join(dir, "docs"), { concurrency: 1 }),
+    ).rejects.toThrow(FileConversionError);
+  });
+
+  it("expands glob patterns", async () => {
+    const { entries } = await mdize.convertMany([
+      join(dir, "docs", "**", "*.{csv,json}"),
+      join(dir, "docs", "*.txt"),
+    ]);
+    expect(entries.map((e) => e.path)).toEqual([
+      join(dir, "docs", "sub", "config.json"),
+      join(dir, "docs", "sub", "data.csv"),
+      join(dir, "docs", "notes.txt"),
+    ]);
+  });
+
+  it("mirrors the input tree into outputDir", async () => {
+    await writeFile(join(dir, "docs", "sub", "data.txt"), "same stem");
+    const out = join(dir, "out");
+    const { entries } = await mdize.convertMany(
+      join(dir, "docs", "**", "*.{txt,csv}"),
+      { outputDir: out },
+    );
+
+    expect(entries.map((e) => e.outputPath)).toEqual([
+      join(out, "notes.md"),
+      join(out, "sub", "data.csv.md"),
+      join(out, "sub", "data.txt.md"),
+    ]);
+    expect(await readFile(join(out, "notes.md"), "utf-8")).toBe("plain notes\n");
+    expect(await readFile(join(out, "sub", "data.txt.md"), "utf-8")).toBe(
+      "same stem\n",
+    );
+  });
+
+  it("numbers outputs of different inputs with the same name", async () => {
+    await writeFile(join(dir, "docs", "sub", "notes.txt"), "sub notes");
+    const out = join(dir, "out");
+    const { entries } = await mdize.convertMany(
+      [join(dir, "docs", "notes.txt"), join(dir, "docs", "sub", "notes.txt")],
+      { outputDir: out },
+    );
+
+    expect(entries.map((e) => e.outputPath)).toEqual([
+      join(out, "notes.txt.md"),
+      join(out, "notes.txt-2.md"),
+    ]);
+    expect(await readFile(join(out, "notes.txt.md"), "utf-8")).toBe(
+      "plain notes\n",
+    );
+    expect(await readFile(join(out, "notes.txt-2.md"), "utf-8")).toBe(
+      "sub notes\n",
+    );
+  });
+
+  it("links images relative to each output file", async () => {
+    await copyFile(
+      join(TEST_FILES, "test.docx"),
+      join(dir, "docs", "sub", "report.docx"),
+    );
+    const out = join(dir, "out");
+    await mdize.convertMany(join(dir, "docs", "**", "*.docx"), {
+      outputDir: out,
+      imageDir: join(out, "img"),
+    });
+
+    const [image] = await readdir(join(out, "img"));
+    expect(await readFile(join(out, "sub", "report.md"), "utf-8")).toContain(
+      `](../img/${image})`,
+    );
+  });
+
+  it("runs at most `concurrency` conversions at once", async () => {
+    const custom = new Mdize({ enableBuiltins: false });
+    let running = 0;
+    let peak = 0;
+    custom.register({
+      accepts: () => true,
+      convert: async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return { markdown: "ok" };
+      },
+    } as any);
+
+    const { summary } = await custom.convertMany(join(dir, "docs"), {
+      concurrency: 2,
+    });
+    expect(summary.converted).toBe(4);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,170 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import {
+  Mdize,
+  MemoryCache,
+  FileSystemCache,
+  WarningCollector,
+  type ConversionCache,
+  type ConversionWarning,
+  type ConvertOptions,
+  type StreamInfo,
+} from "../src/index.js";
+
+/** An Mdize whose only converter counts its calls and warns once */
+function countingMdize(cache: ConversionCache) {
+  const mdize = new Mdize({ enableBuiltins: false, cache });
+  const counter = { calls: 0 };
+  mdize.register({
+    accepts: () => true,
+    convert: async (input: Buffer, _info, options?: ConvertOptions) => {
+      counter.calls++;
+      const warnings = new WarningCollector(options);
+      warnings.warn("ocr-empty", "No text recognized", {
+        cause: new RangeError("blank"),
+      });
+      return {
+        markdown: `${input.toString()} (${options?.pageMarkers ? "marked" : "plain"})`,
+        warnings: warnings.warnings,
+      };
+    },
+  });
+  return { mdize, counter };
+}
+
+describe("MemoryCache", () => {
+  it("evicts the least recently used result", () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    cache.set("a", { markdown: "a" });
+    cache.set("b", { markdown: "b" });
+    cache.get("a");
+    cache.set("c", { markdown: "c" });
+    expect(cache.get("a")).toEqual({ markdown: "a" });
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toEqual({ markdown: "c" });
+  });
+
+  it("hands out copies of the stored results", () => {
+    const cache = new MemoryCache();
+    const result = { markdown: "a", warnings: [] };
+    cache.set("a", result);
+    result.markdown = "changed";
+    cache.get("a")!.warnings!.push({ code: "ocr-empty", message: "x" });
+    expect(cache.get("a")).toEqual({ markdown: "a", warnings: [] });
+  });
+});
+
+describe("Mdize cache", () => {
+  it("returns the cached result for the same bytes and options", async () => {
+    const { mdize, counter } = countingMdize(new MemoryCache());
+    const first = await mdize.convertBuffer(Buffer.from("hello"));
+    const second = await mdize.convertBuffer(Buffer.from("hello"));
+    expect(second).toEqual(first);
+    expect(counter.calls).toBe(1);
+  });
+
+  it("misses when the bytes, format or options change", async () => {
+    const { mdize, counter } = countingMdize(new MemoryCache());
+    await mdize.convertBuffer(Buffer.from("hello"), { extension: ".txt" });
+    await mdize.convertBuffer(Buffer.from("hello!"), { extension: ".txt" });
+    await mdize.convertBuffer(Buffer.from("hello"), { extension: ".md" });
+    const marked = await mdize.convertBuffer(
+      Buffer.from("hello"),
+      { extension: ".txt" },
+      { pageMarkers: true },
+    );
+    expect(marked.markdown).toBe("hello (marked)");
+    expect(counter.calls).toBe(4);
+
+    // Callbacks and timeouts do not change the result
+    await mdize.convertBuffer(
+      Buffer.from("hello"),
+      { extension: ".txt" },
+      { onProgress: () => {}, timeoutMs: 60_000 },
+    );
+    expect(counter.calls).toBe(4);
+  });
+
+  it("misses when the document URL or file name changes", async () => {
+    const mdize = new Mdize({ cache: new MemoryCache() });
+    const html = Buffer.from('<html><body><a href="/x">link</a></body></html>');
+    const convert = (info: StreamInfo) =>
+      mdize.convertBuffer(html, { extension: ".html", ...info });
+
+    expect((await convert({ url: "https://a.example/p" })).markdown).toBe(
+      "[link](https://a.example/x)",
+    );
+    expect((await convert({ url: "https://b.example/p" })).markdown).toBe(
+      "[link](https://b.example/x)",
+    );
+
+    const { mdize: counting, counter } = countingMdize(new MemoryCache());
+    await counting.convertBuffer(Buffer.from("hello"), { filename: "a.txt" });
+    await counting.convertBuffer(Buffer.from("hello"), { filename: "b.txt" });
+    expect(counter.calls).toBe(2);
+  });
+
+  it("does not cache conversions that export images to onImage", async () => {
+    const { mdize, counter } = countingMdize(new MemoryCache());
+    const options: ConvertOptions = { onImage: (_bytes, _type, name) => name };
+    await mdize.convertBuffer(Buffer.from("hello"), undefined, options);
+    await mdize.convertBuffer(Buffer.from("hello"), undefined, options);
+    expect(counter.calls).toBe(2);
+  });
+
+  it("does not cache conversions that write images to imageDir", async () => {
+    const { mdize, counter } = countingMdize(new MemoryCache());
+    const options: ConvertOptions = { imageDir: "images" };
+    await mdize.convertBuffer(Buffer.from("hello"), undefined, options);
+    await mdize.convertBuffer(Buffer.from("hello"), undefined, options);
+    expect(counter.calls).toBe(2);
+  });
+
+  it("reports cached warnings again", async () => {
+    const { mdize } = countingMdize(new MemoryCache());
+    await mdize.convertBuffer(Buffer.from("hello"));
+    const warnings: ConversionWarning[] = [];
+    const result = await mdize.convertBuffer(Buffer.from("hello"), undefined, {
+      onWarning: (w) => warnings.push(w),
+    });
+    expect(warnings).toEqual(result.warnings);
+    expect(warnings).toMatchObject([{ code: "ocr-empty" }]);
+  });
+});
+
+describe("FileSystemCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mdize-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("shares results between instances, keeping warning causes", async () => {
+    const first = countingMdize(new FileSystemCache(dir));
+    await first.mdize.convertBuffer(Buffer.from("hello"));
+    const second = countingMdize(new FileSystemCache(dir));
+    const result = await second.mdize.convertBuffer(Buffer.from("hello"));
+
+    expect(second.counter.calls).toBe(0);
+    expect(result.markdown).toBe("hello (plain)");
+    expect(result.warnings?.[0].cause).toBeInstanceOf(RangeError);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it("treats unreadable entries as misses", async () => {
+    const { mdize, counter } = countingMdize(new FileSystemCache(dir));
+    await mdize.convertBuffer(Buffer.from("hello"));
+    const [entry] = await readdir(dir);
+    await writeFile(join(dir, entry), "{ truncated");
+
+    const result = await mdize.convertBuffer(Buffer.from("hello"));
+    expect(result.markdown).toBe("hello (plain)");
+    expect(counter.calls).toBe(2);
+  });
+});
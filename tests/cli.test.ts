@@ -0,0 +1,202 @@
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough, Readable } from "node:stream";
+import JSZip from "jszip";
+import { describe, it, expect } from "vitest";
+import {
+  runCli,
+  EXIT_OK,
+  EXIT_ERROR,
+  EXIT_USAGE,
+  EXIT_UNSUPPORTED_FORMAT,
+  EXIT_CONVERSION_FAILED,
+} from "../src/cli.js";
+
+const TEST_FILES = join(import.meta.dirname, "test-files");
+
+function createIO(stdinData = "") {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = "";
+  let err = "";
+  stdout.on("data", (d) => (out += d));
+  stderr.on("data", (d) => (err += d));
+  return {
+    io: { stdin: Readable.from([Buffer.from(stdinData)]), stdout, stderr },
+    out: () => out,
+    err: () => err,
+  };
+}
+
+describe("runCli", () => {
+  it("converts a file to stdout", async () => {
+    const { io, out } = createIO();
+    const code = await runCli([join(TEST_FILES, "test.json")], io);
+    expect(code).toBe(EXIT_OK);
+    expect(out()).toContain("5b64c88c-b3c3-4510-bcb8-da0b200602d8");
+  });
+
+  it("converts stdin using hints", async () => {
+    const { io, out } = createIO("a,b\n1,2\n");
+    const code = await runCli(["--extension", "csv"], io);
+    expect(code).toBe(EXIT_OK);
+    expect(out()).toContain("| a | b |");
+  });
+
+  it("prints warnings to stderr and still converts", async () => {
+    const { io, out, err } = createIO("hello");
+    const code = await runCli(["-x", "txt", "-c", "x-unknown"], io);
+    expect(code).toBe(EXIT_OK);
+    expect(out()).toBe("hello\n");
+    expect(err()).toBe(
+      'mdize: <stdin>: warning: Unknown charset "x-unknown", decoded as UTF-8\n',
+    );
+  });
+
+  it("fails on warnings with --strict", async () => {
+    const { io, out, err } = createIO("hello");
+    const code = await runCli(["-x", "txt", "-c", "x-unknown", "--strict"], io);
+    expect(code).toBe(EXIT_CONVERSION_FAILED);
+    expect(out()).toBe("");
+    expect(err()).toContain('Unknown charset "x-unknown"');
+  });
+
+  it("rejects a timeout that is not a positive number", async () => {
+    const { io, err } = createIO();
+    const code = await runCli(["--timeout", "soon", "x.txt"], io);
+    expect(code).toBe(EXIT_USAGE);
+    expect(err()).toContain("--timeout must be a positive number");
+  });
+
+  it("rejects an unknown --hidden-slides value", async () => {
+    const { io, err } = createIO();
+    const code = await runCli(["--hidden-slides", "hide", "x.pptx"], io);
+    expect(code).toBe(EXIT_USAGE);
+    expect(err()).toContain("--hidden-slides must be skip, include or mark");
+  });
+
+  it("skips, includes or marks hidden slides", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdize-cli-"));
+    try {
+      const zip = await JSZip.loadAsync(
+        await readFile(join(TEST_FILES, "test.pptx")),
+      );
+      const slide = "ppt/slides/slide3.xml";
+      const xml = await zip.file(slide)!.async("string");
+      zip.file(slide, xml.replace("<p:sld ", '<p:sld show="0" '));
+      const deck = join(dir, "deck.pptx");
+      await writeFile(deck, await zip.generateAsync({ type: "nodebuffer" }));
+
+      const convert = async (...flags: string[]) => {
+        const { io, out } = createIO();
+        expect(await runCli([...flags, deck], io)).toBe(EXIT_OK);
+        return out();
+      };
+      expect(await convert()).toContain("<!-- Slide 3 (hidden) -->");
+      expect(await convert("--hidden-slides", "mark")).toContain(
+        "<!-- Slide 3 (hidden) -->",
+      );
+      expect(await convert("--hidden-slides", "include")).toContain(
+        "<!-- Slide 3 -->\n\n# A table to test parsing:",
+      );
+      expect(await convert("--hidden-slides", "skip")).not.toContain(
+        "A table to test parsing",
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("writes to an output directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdize-cli-"));
+    try {
+      const { io } = createIO();
+      const code = await runCli(
+        ["-o", dir, join(TEST_FILES, "test.json")],
+        io,
+      );
+      expect(code).toBe(EXIT_OK);
+      const md = await readFile(join(dir, "test.md"), "utf-8");
+      expect(md).toContain("5b64c88c-b3c3-4510-bcb8-da0b200602d8");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("links images relative to the output directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdize-cli-"));
+    try {
+      const { io } = createIO();
+      const code = await runCli(
+        ["-o", dir, "--image-dir", join(dir, "img"), join(TEST_FILES, "test.docx")],
+        io,
+      );
+      expect(code).toBe(EXIT_OK);
+      const [image] = await readdir(join(dir, "img"));
+      const md = await readFile(join(dir, "test.md"), "utf-8");
+      expect(md).toContain(`](img/${image})`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("numbers outputs of inputs with the same name", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdize-cli-"));
+    try {
+      for (const sub of ["a", "b"]) {
+        await mkdir(join(dir, sub));
+        await writeFile(join(dir, sub, "notes.txt"), `notes from ${sub}`);
+      }
+      const out = join(dir, "out");
+      const { io } = createIO();
+      const code = await runCli(
+        ["-o", out, join(dir, "a", "notes.txt"), join(dir, "b", "notes.txt")],
+        io,
+      );
+      expect(code).toBe(EXIT_OK);
+      expect((await readdir(out)).sort()).toEqual(["notes-2.md", "notes.md"]);
+      expect(await readFile(join(out, "notes.md"), "utf-8")).toBe("notes from a\n");
+      expect(await readFile(join(out, "notes-2.md"), "utf-8")).toBe("notes from b\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports an output directory that cannot be created", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdize-cli-"));
+    try {
+      await writeFile(join(dir, "file"), "");
+      const { io, err } = createIO();
+      const code = await runCli(
+        ["-o", join(dir, "file", "out"), join(TEST_FILES, "test.json")],
+        io,
+      );
+      expect(code).toBe(EXIT_ERROR);
+      expect(err()).toContain(`mdize: ${join(TEST_FILES, "test.json")}: `);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with a distinct code when conversion fails", async () => {
+    const { io, out, err } = createIO("not really a PDF");
+    const code = await runCli(["-x", "pdf"], io);
+    expect(code).toBe(EXIT_CONVERSION_FAILED);
+    expect(out()).toBe("");
+    expect(err()).toContain("PdfConverter");
+  });
+
+  it("exits with a distinct code for unsupported formats", async () => {
+    const { io, err } = createIO("\x00\x01\x02\x03");
+    const code = await runCli(["-x", ".xyz"], io);
+    expect(code).toBe(EXIT_UNSUPPORTED_FORMAT);
+    expect(err()).toContain("No converter found");
+  });
+
+  it("rejects unknown flags", async () => {
+    const { io } = createIO();
+    const code = await runCli(["--bogus"], io);
+    expect(code).toBe(EXIT_USAGE);
+  });
+});
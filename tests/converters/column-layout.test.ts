@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  orderByColumns,
+  splitColumns,
+  type LayoutItem,
+} from "../../src/converters/column-layout.js";
+
+function columnLines(x: number, label: string, count: number, startTop = 100): LayoutItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    str: `${label} column line number ${i + 1}`,
+    x0: x,
+    x1: x + 200,
+    top: startTop + i * 14,
+  }));
+}
+
+/** Interleave two columns line by line, the order pdf.js often reports */
+function interleave(left: LayoutItem[], right: LayoutItem[]): LayoutItem[] {
+  return left.flatMap((item, i) => (right[i] ? [item, right[i]] : [item]));
+}
+
+/** One item per word, as some PDF producers emit text */
+function wordItems(x: number, top: number, line: string): LayoutItem[] {
+  return line.split(" ").map((str) => {
+    const item = { str, x0: x, x1: x + str.length * 5, top };
+    x = item.x1 + 3;
+    return item;
+  });
+}
+
+/** Ragged lines of prose, the longest of them 130 units wide */
+const PROSE = [
+  "The quick brown fox jumps",
+  "over the lazy dog while a",
+  "second fox watches from the",
+  "hedge at the end of the",
+  "garden and waits for dusk",
+  "before it follows",
+];
+
+describe("orderByColumns", () => {
+  it("reads the left column before the right column", () => {
+    const left = columnLines(50, "Left", 6);
+    const right = columnLines(300, "Right", 6);
+
+    const ordered = orderByColumns(interleave(left, right));
+
+    expect(ordered.map((i) => i.str)).toEqual(
+      [...left, ...right].map((i) => i.str),
+    );
+  });
+
+  it("keeps full-width lines between the column bands they separate", () => {
+    const title = { str: "A title that spans both columns", x0: 50, x1: 500, top: 60 };
+    const upperLeft = columnLines(50, "Upper left", 5, 100);
+    const upperRight = columnLines(300, "Upper right", 5, 100);
+    const figure = { str: "Figure 1: a caption across the page", x0: 50, x1: 500, top: 200 };
+    const lowerLeft = columnLines(50, "Lower left", 5, 240);
+    const lowerRight = columnLines(300, "Lower right", 5, 240);
+
+    const ordered = orderByColumns([
+      title,
+      ...interleave(upperLeft, upperRight),
+      figure,
+      ...interleave(lowerLeft, lowerRight),
+    ]);
+
+    expect(ordered.map((i) => i.str)).toEqual(
+      [title, ...upperLeft, ...upperRight, figure, ...lowerLeft, ...lowerRight].map(
+        (i) => i.str,
+      ),
+    );
+  });
+
+  it("leaves single-column text in its original order", () => {
+    const items = Array.from({ length: 10 }, (_, i) => ({
+      str: `A single column paragraph line ${i + 1}`,
+      x0: 50,
+      x1: 500,
+      top: 100 + i * 14,
+    }));
+    expect(orderByColumns(items)).toEqual(items);
+  });
+
+  it("does not split short label/value pairs into columns", () => {
+    const items = Array.from({ length: 8 }, (_, i) => [
+      { str: `Field ${i}:`, x0: 50, x1: 90, top: 100 + i * 14 },
+      { str: `${i * 7}`, x0: 300, x1: 320, top: 100 + i * 14 },
+    ]).flat();
+    expect(orderByColumns(items)).toEqual(items);
+  });
+
+  it("splits ragged columns of single-word items", () => {
+    const left = PROSE.map((line, i) => wordItems(50, 100 + i * 14, line));
+    const right = PROSE.map((line, i) => wordItems(300, 100 + i * 14, line));
+
+    const ordered = orderByColumns(
+      left.flatMap((line, i) => [...line, ...right[i]]),
+    );
+
+    expect(ordered.map((i) => i.x0 < 300)).toEqual([
+      ...left.flat().map(() => true),
+      ...right.flat().map(() => false),
+    ]);
+  });
+});
+
+describe("splitColumns", () => {
+  it("returns each column of each band as a block", () => {
+    const title = { str: "A title that spans both columns", x0: 50, x1: 500, top: 60 };
+    const left = columnLines(50, "Left", 5);
+    const right = columnLines(300, "Right", 5);
+
+    const blocks = splitColumns([title, ...interleave(left, right)]);
+
+    expect(blocks).toEqual([[title], left, right]);
+  });
+
+  it("returns a single block for single-column text", () => {
+    const items = columnLines(50, "Only", 6);
+    expect(splitColumns(items)).toEqual([items]);
+  });
+});
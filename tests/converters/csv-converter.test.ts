@@ -5,6 +5,12 @@ import { CsvConverter } from "../../src/converters/csv-converter.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
+async function* chunked(buf: Buffer, size: number): AsyncGenerator<Buffer> {
+  for (let i = 0; i < buf.length; i += size) {
+    yield buf.subarray(i, i + size);
+  }
+}
+
 describe("CsvConverter", () => {
   const converter = new CsvConverter();
 
@@ -32,6 +38,15 @@ describe("CsvConverter", () => {
       expect(result.markdown).toContain("| Bob | 25 | LA |");
     });
 
+    it("reports row and column counts", async () => {
+      const csv = "Name,Age,City\nAlice,30,NYC\nBob,25,LA\n";
+      const result = await converter.convert(Buffer.from(csv), { extension: ".csv" });
+      expect(result.metadata).toEqual({ rowCount: 2, columnCount: 3, charset: "ascii" });
+      expect(result.sections).toEqual([
+        { location: { unit: "document" }, start: 0, end: result.markdown.length },
+      ]);
+    });
+
     it("handles empty CSV", async () => {
       const result = await converter.convert(Buffer.from(""), { extension: ".csv" });
       expect(result.markdown).toBe("");
@@ -56,4 +71,29 @@ describe("CsvConverter", () => {
       expect(result.markdown).toContain("| 髙橋淳 | 35 | 名古屋 |");
     });
   });
+
+  describe("convertStream", () => {
+    it("converts CSV arriving in chunks with charset detection", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_mskanji.csv"));
+      const expected = await converter.convert(buf, { extension: ".csv" });
+      const result = await converter.convertStream(chunked(buf, 7), {
+        extension: ".csv",
+      });
+      expect(result.markdown).toBe(expected.markdown);
+    });
+  });
+
+  describe("resource limits", () => {
+    it("counts data rows against maxRows", async () => {
+      const csv = Buffer.from("A,B\n1,2\n3,4\n");
+      const limited = { limits: { maxRows: 2 } };
+      const result = await converter.convert(csv, { extension: ".csv" }, limited);
+      expect(result.metadata?.rowCount).toBe(2);
+
+      const more = Buffer.concat([csv, Buffer.from("5,6\n")]);
+      await expect(
+        converter.convertStream(chunked(more, 4), { extension: ".csv" }, limited),
+      ).rejects.toMatchObject({ limit: "maxRows", max: 2, actual: 3 });
+    });
+  });
 });
@@ -1,7 +1,10 @@
-import { readFile } from "node:fs/promises";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, it, expect } from "vitest";
 import { DocxConverter } from "../../src/converters/docx-converter.js";
+import { ResourceLimitError } from "../../src/errors.js";
+import { withUnderstatedEntry } from "../helpers/zip-bomb.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
@@ -42,5 +45,78 @@ describe("DocxConverter", () => {
       // The document should contain heading markers
       expect(result.markdown).toMatch(/^#{1,6}\s/m);
     });
+
+    it("reports what mammoth could not convert", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.docx"));
+      const result = await converter.convert(buf, { extension: ".docx" });
+      expect(result.warnings).toEqual([
+        {
+          code: "unsupported-content",
+          message: "Unrecognised paragraph style: 'Title' (Style ID: a3)",
+        },
+      ]);
+    });
+
+    it("reads core properties, skipping empty ones", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.docx"));
+      const result = await converter.convert(buf, { extension: ".docx" });
+      expect(result.title).toBeUndefined();
+      expect(result.metadata).toEqual({
+        author: "Adam Fourney",
+        created: "2024-03-15T05:45:00.000Z",
+        modified: "2025-03-20T15:40:00.000Z",
+      });
+    });
+
+
+    it("writes images to imageDir and links to them", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "mdize-images-"));
+      try {
+        const buf = await readFile(join(TEST_FILES, "test.docx"));
+        const result = await converter.convert(
+          buf,
+          { extension: ".docx" },
+          { imageDir: dir },
+        );
+        const files = await readdir(dir);
+        expect(files).toEqual([expect.stringMatching(/^image1-[0-9a-f]{8}\.png$/)]);
+        expect(result.markdown).toContain(`](${join(dir, files[0])})`);
+        expect(result.markdown).not.toContain("data:image");
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("links images relative to markdownDir", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "mdize-images-"));
+      try {
+        const buf = await readFile(join(TEST_FILES, "test.docx"));
+        const result = await converter.convert(
+          buf,
+          { extension: ".docx" },
+          { imageDir: join(dir, "assets"), markdownDir: join(dir, "docs") },
+        );
+        const [file] = await readdir(join(dir, "assets"));
+        expect(result.markdown).toContain(`](../assets/${file})`);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("resource limits", () => {
+    it("stops inflating before mammoth sees an oversized archive", async () => {
+      const buf = await withUnderstatedEntry(
+        await readFile(join(TEST_FILES, "test.docx")),
+        4 * 1024 * 1024,
+      );
+      const error = await converter
+        .convert(buf, { extension: ".docx" }, {
+          limits: { maxUncompressedBytes: 1024 * 1024 },
+        })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error.actual).toBeLessThan(2 * 1024 * 1024);
+    });
   });
 });
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { GitHubIssueConverter } from "../../src/converters/github-issue-converter.js";
+
+const PAGE = `
+<html><head>
+  <meta property="og:site_name" content="GitHub">
+  <title>Crash on empty input · Issue #123 · acme/widgets</title>
+</head>
+<body>
+  <header class="AppHeader"><a href="/">GitHub</a></header>
+  <h1 class="gh-header-title"><bdi class="js-issue-title markdown-title">Crash on empty input</bdi>
+    <span class="gh-header-number">#123</span></h1>
+  <span class="State State--open">Open</span>
+  <div class="timeline-comment">
+    <a class="author" href="/alice">alice</a> opened <relative-time datetime="2024-01-02T03:04:05Z"></relative-time>
+    <table><tbody><tr><td class="d-block comment-body markdown-body"><p>Passing <code>""</code> crashes the parser.</p></td></tr></tbody></table>
+  </div>
+  <div class="timeline-comment">
+    <a class="author" href="/bob">bob</a> commented <relative-time datetime="2024-01-03T00:00:00Z"></relative-time>
+    <div class="comment-body"><p>Confirmed on <strong>v2</strong>.</p></div>
+  </div>
+</body></html>`;
+
+describe("GitHubIssueConverter", () => {
+  const converter = new GitHubIssueConverter();
+
+  describe("accepts", () => {
+    it("accepts saved issue pages by DOM signature", () => {
+      expect(converter.accepts(Buffer.from(PAGE), { extension: ".html" })).toBe(true);
+    });
+
+    it("accepts issue URLs", () => {
+      expect(
+        converter.accepts(Buffer.from(""), {
+          mimetype: "text/html",
+          url: "https://github.com/acme/widgets/issues/123",
+        }),
+      ).toBe(true);
+    });
+
+    it("accepts saved issue pages served from other URLs", () => {
+      expect(
+        converter.accepts(Buffer.from(PAGE), {
+          mimetype: "text/html",
+          url: "https://archive.example.org/acme/widgets/123",
+        }),
+      ).toBe(true);
+    });
+
+    it("rejects other GitHub pages", () => {
+      expect(
+        converter.accepts(Buffer.from("<p>hi</p>"), {
+          extension: ".html",
+          url: "https://github.com/acme/widgets",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("convert", () => {
+    it("emits the issue body and comments with authors", async () => {
+      const result = await converter.convert(Buffer.from(PAGE), {
+        extension: ".html",
+      });
+
+      expect(result.title).toBe("Crash on empty input");
+      expect(result.markdown).toContain("# Crash on empty input #123");
+      expect(result.markdown).toContain(
+        "**State:** Open · **Author:** alice · **Opened:** 2024-01-02",
+      );
+      expect(result.markdown).toContain('Passing `""` crashes the parser.');
+      expect(result.markdown).toContain("## Comments (1)");
+      expect(result.markdown).toContain("### bob commented on 2024-01-03");
+      expect(result.markdown).toContain("Confirmed on **v2**.");
+      expect(result.markdown).not.toContain("AppHeader");
+    });
+  });
+
+  it("exports data URI images in comments", async () => {
+    const page = PAGE.replace(
+      "<p>Confirmed on <strong>v2</strong>.</p>",
+      '<p>Confirmed.</p><img alt="trace" src="data:image/gif;base64,R0lGODlhAQABAAAAACw=">',
+    );
+    const result = await converter.convert(
+      Buffer.from(page),
+      { extension: ".html" },
+      { onImage: (_bytes, _mimetype, name) => `assets/${name}` },
+    );
+    expect(result.markdown).toContain("![trace](assets/image1.gif)");
+  });
+});
@@ -77,6 +77,25 @@ describe("HtmlConverter", () => {
       expect(result.title).toBe("My Page");
     });
 
+    it("reads language and meta tags into metadata", () => {
+      const html = `<html lang="en-GB"><head><title>My Page</title>
+        <meta name="author" content="Ann Lee">
+        <meta name="description" content="A short page">
+        <meta name="keywords" content="alpha, beta">
+        </head><body><p>Hi</p></body></html>`;
+      const result = convertHtmlString(html);
+      expect(result.metadata).toEqual({
+        title: "My Page",
+        author: "Ann Lee",
+        description: "A short page",
+        keywords: ["alpha", "beta"],
+        language: "en-GB",
+      });
+      expect(result.sections).toEqual([
+        { location: { unit: "document" }, start: 0, end: 2 },
+      ]);
+    });
+
     it("truncates data URIs by default", () => {
       const html = '<img alt="test" src="data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVQI12NgAAIABQABNjN9GQAAAAlwSFlzAAAWJQAAFiUBSVIk8AAAAAxJREFUCNdjYAAAAAIAAeIhvDMAAAAASUVORK5CYII=" />';
       const result = convertHtmlString(html);
@@ -108,5 +127,206 @@ describe("HtmlConverter", () => {
         "Large language models (LLMs) are powerful tools",
       );
     });
+
+    it("warns when the charset hint is unknown", async () => {
+      const result = await converter.convert(Buffer.from("<p>hello</p>"), {
+        extension: ".html",
+        charset: "x-unknown",
+      });
+      expect(result.markdown).toBe("hello");
+      expect(result.warnings).toMatchObject([
+        {
+          code: "charset-fallback",
+          message: 'Unknown charset "x-unknown", decoded as UTF-8',
+        },
+      ]);
+    });
+
+    it("fails on an unknown charset in strict mode", async () => {
+      await expect(
+        converter.convert(
+          Buffer.from("<p>hello</p>"),
+          { extension: ".html", charset: "x-unknown" },
+          { strict: true },
+        ),
+      ).rejects.toMatchObject({
+        name: "DegradedConversionError",
+        code: "charset-fallback",
+      });
+    });
+  });
+
+  describe("main-content mode", () => {
+    const paragraph =
+      "The committee met on Tuesday to review the budget, discuss the roadmap, and agree on next steps for the coming quarter.";
+    const page = `
+      <html>
+        <head>
+          <title>Budget Review</title>
+          <meta name="author" content="Jane Doe">
+          <meta property="article:published_time" content="2024-03-05T10:00:00Z">
+        </head>
+        <body>
+          <nav><a href="/">Home</a> <a href="/news">News</a> <a href="/about">About</a></nav>
+          <div class="cookie-banner">We use cookies to improve your experience.</div>
+          <div class="layout">
+            <div class="sidebar"><a href="/a">Popular post one</a><a href="/b">Popular post two</a></div>
+            <article>
+              <h1>Budget Review</h1>
+              <p>${paragraph}</p>
+              <p>${paragraph}</p>
+              <p>${paragraph}</p>
+            </article>
+          </div>
+          <footer>Copyright 2024 Example Corp</footer>
+        </body>
+      </html>`;
+
+    it("converts only the main content region", async () => {
+      const result = await converter.convert(
+        Buffer.from(page),
+        { extension: ".html" },
+        { mainContent: true },
+      );
+      expect(result.markdown).toContain("The committee met on Tuesday");
+      expect(result.markdown).not.toContain("Popular post");
+      expect(result.markdown).not.toContain("cookies");
+      expect(result.markdown).not.toContain("Copyright");
+      expect(result.markdown).not.toContain("[Home]");
+    });
+
+    it("returns title, byline and published date", async () => {
+      const result = await converter.convert(
+        Buffer.from(page),
+        { extension: ".html" },
+        { mainContent: true },
+      );
+      expect(result.title).toBe("Budget Review");
+      expect(result.byline).toBe("Jane Doe");
+      expect(result.published).toBe("2024-03-05T10:00:00Z");
+    });
+
+    it("is off by default", async () => {
+      const result = await converter.convert(Buffer.from(page), {
+        extension: ".html",
+      });
+      expect(result.markdown).toContain("Copyright");
+      expect(result.byline).toBeUndefined();
+    });
+
+    it("falls back to the whole page when no region stands out", async () => {
+      const result = await converter.convert(
+        Buffer.from("<html><body><p>Short note.</p></body></html>"),
+        { extension: ".html" },
+        { mainContent: true },
+      );
+      expect(result.markdown).toBe("Short note.");
+    });
+
+    it("strips navigation from test_blog.html", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_blog.html"));
+      const full = await converter.convert(buf, { extension: ".html" });
+      const result = await converter.convert(
+        buf,
+        { extension: ".html" },
+        { mainContent: true },
+      );
+      expect(result.markdown).toContain(
+        "Large language models (LLMs) are powerful tools",
+      );
+      expect(result.markdown.length).toBeLessThan(full.markdown.length);
+      expect(result.byline).toBe("Chi Wang");
+    });
+  });
+
+  describe("image export", () => {
+    const PNG =
+      "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVQI12NgAAIABQABNjN9GQAAAAlwSFlzAAAWJQAAFiUBSVIk8AAAAAxJREFUCNdjYAAAAAIAAeIhvDMAAAAASUVORK5CYII=";
+
+    it("hands data URI images to onImage and links to the returned path", async () => {
+      const images: [number, string, string][] = [];
+      const html = `
+        <img alt="A" src="data:image/png;base64,${PNG}">
+        <img alt="B" src="data:image/png;base64,${PNG}">
+        <img alt="C" src="data:image/gif;base64,R0lGODlhAQABAAAAACw=">
+        <img alt="D" src="img/d.png">`;
+      const result = await converter.convert(
+        Buffer.from(html),
+        { extension: ".html", url: "https://example.com/post" },
+        {
+          onImage: (bytes, mimetype, name) => {
+            images.push([bytes.length, mimetype, name]);
+            return `assets/${name}`;
+          },
+        },
+      );
+      expect(images).toEqual([
+        [Buffer.from(PNG, "base64").length, "image/png", "image1.png"],
+        [14, "image/gif", "image2.gif"],
+      ]);
+      // Exported paths are not resolved against the page URL
+      expect(result.markdown).toBe(
+        "![A](assets/image1.png) ![B](assets/image1.png) ![C](assets/image2.gif) ![D](https://example.com/img/d.png)",
+      );
+    });
+  });
+
+  describe("link resolution", () => {
+    const html = `
+      <a href="/docs/x">Docs</a>
+      <a href="guide.html?utm_source=feed&id=7">Guide</a>
+      <a href="#top">Top</a>
+      <a href="mailto:me@example.com">Mail</a>
+      <img alt="A" src="img/a.png">`;
+
+    it("resolves relative links and images against the URL", () => {
+      const result = convertHtmlString(html, {
+        url: "https://example.com/blog/post",
+      });
+      expect(result.markdown).toContain("[Docs](https://example.com/docs/x)");
+      expect(result.markdown).toContain(
+        "[Guide](https://example.com/blog/guide.html?utm_source=feed&id=7)",
+      );
+      expect(result.markdown).toContain("![A](https://example.com/blog/img/a.png)");
+      expect(result.markdown).toContain("[Top](#top)");
+      expect(result.markdown).toContain("[Mail](mailto:me@example.com)");
+    });
+
+    it("prefers <base href> over the document URL", () => {
+      const result = convertHtmlString(
+        `<html><head><base href="/static/"></head><body>${html}</body></html>`,
+        { url: "https://example.com/blog/post" },
+      );
+      expect(result.markdown).toContain("![A](https://example.com/static/img/a.png)");
+    });
+
+    it("uses StreamInfo.url when no option is given", async () => {
+      const result = await converter.convert(Buffer.from(html), {
+        extension: ".html",
+        url: "https://example.com/",
+      });
+      expect(result.markdown).toContain("[Docs](https://example.com/docs/x)");
+    });
+
+    it("leaves URLs untouched when resolveLinks is false", () => {
+      const result = convertHtmlString(html, {
+        url: "https://example.com/",
+        resolveLinks: false,
+      });
+      expect(result.markdown).toContain("[Docs](/docs/x)");
+      expect(result.markdown).toContain("![A](img/a.png)");
+    });
+
+    it("strips tracking parameters", () => {
+      const resolved = convertHtmlString(html, {
+        url: "https://example.com/",
+        stripTrackingParams: true,
+      });
+      expect(resolved.markdown).toContain("[Guide](https://example.com/guide.html?id=7)");
+
+      const relative = convertHtmlString(html, { stripTrackingParams: true });
+      expect(relative.markdown).toContain("[Guide](guide.html?id=7)");
+      expect(relative.markdown).toContain("[Docs](/docs/x)");
+    });
   });
 });
@@ -50,6 +50,35 @@ describe("ImageConverter", () => {
       expect(typeof result.markdown).toBe("string");
     });
 
+    it("reads EXIF tags from the APP1 segment", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.jpg"));
+      const result = await converter.convert(buf, { extension: ".jpg" });
+      expect(result.metadata?.exif).toEqual({
+        "Date Created": "2024-03-14T22:10:00.000Z",
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("warns when the EXIF block cannot be parsed", async () => {
+      const payload = Buffer.concat([
+        Buffer.from("Exif\0\0", "latin1"),
+        Buffer.from("not a TIFF header"),
+      ]);
+      const app1 = Buffer.alloc(4);
+      app1.writeUInt16BE(0xffe1, 0);
+      app1.writeUInt16BE(payload.length + 2, 2);
+      const jpeg = Buffer.concat([
+        Buffer.from([0xff, 0xd8]),
+        app1,
+        payload,
+        Buffer.from([0xff, 0xd9]),
+      ]);
+
+      const result = await converter.convert(jpeg, { extension: ".jpg" });
+      expect(result.markdown).toBe("");
+      expect(result.warnings?.map((w) => w.code)).toEqual(["exif-unreadable"]);
+    });
+
     it("does not run OCR by default", async () => {
       const buf = await readFile(join(TEST_FILES, "test.jpg"));
       const result = await converter.convert(buf, { extension: ".jpg" });
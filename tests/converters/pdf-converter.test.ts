@@ -1,10 +1,42 @@
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import { PdfConverter } from "../../src/converters/pdf-converter.js";
+import {
+  ConversionAbortedError,
+  ResourceLimitError,
+} from "../../src/errors.js";
+import { buildPdf, wordTexts, type PdfText } from "../helpers/build-pdf.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
+// tesseract.js downloads language data on first use, so OCR is stubbed
+const recognize = vi.hoisted(() => vi.fn());
+vi.mock("tesseract.js", () => ({
+  createWorker: async () => ({ recognize, terminate: async () => {} }),
+}));
+
+type OcrWord = { text: string; x0: number; x1: number; y0: number };
+
+/** A `worker.recognize` result with block output: one block per line */
+function ocrResult(text: string, lines: OcrWord[][] = []) {
+  const blocks = lines.map((words) => ({
+    paragraphs: [
+      {
+        lines: [
+          {
+            words: words.map(({ text, ...bbox }) => ({
+              text,
+              bbox: { ...bbox, y1: bbox.y0 + 12 },
+            })),
+          },
+        ],
+      },
+    ],
+  }));
+  return { data: { text, blocks } };
+}
+
 describe("PdfConverter", () => {
   const converter = new PdfConverter();
 
@@ -50,6 +82,47 @@ describe("PdfConverter", () => {
       expect(result.markdown.length).toBeGreaterThan(0);
     });
 
+    it("keeps headings and prose around detected tables", async () => {
+      const buf = await readFile(
+        join(TEST_FILES, "SPARSE-2024-INV-1234_borderless_table.pdf"),
+      );
+      const { markdown } = await converter.convert(buf, { extension: ".pdf" });
+
+      const heading = markdown.indexOf("# INVENTORY RECONCILIATION REPORT");
+      const prose = markdown.indexOf("The inventory reconciliation reveals");
+      const table = markdown.indexOf(
+        "| Product Code | Category | Unit Cost | Total Value | Last Audit | Notes |",
+      );
+      expect(heading).toBeGreaterThanOrEqual(0);
+      expect(prose).toBeGreaterThan(heading);
+      expect(table).toBeGreaterThan(prose);
+    });
+
+    it("exports embedded images as PNG after the page text", async () => {
+      const buf = await readFile(
+        join(TEST_FILES, "SPARSE-2024-INV-1234_borderless_table.pdf"),
+      );
+      const images: [string, string][] = [];
+      const { markdown } = await converter.convert(
+        buf,
+        { extension: ".pdf" },
+        {
+          pageMarkers: true,
+          onImage: (bytes, mimetype, name) => {
+            images.push([bytes.subarray(1, 4).toString(), name]);
+            expect(mimetype).toBe("image/png");
+            return name;
+          },
+        },
+      );
+      expect(images).toEqual([
+        ["PNG", "page1-image1.png"],
+        ["PNG", "page2-image1.png"],
+      ]);
+      expect(markdown).toMatch(/\n\n!\[\]\(page1-image1\.png\)\n\n<!-- page 2 -->/);
+      expect(markdown).toMatch(/\n\n!\[\]\(page2-image1\.png\)$/);
+    });
+
     it("detects headings from larger font sizes", async () => {
       const buf = await readFile(join(TEST_FILES, "test.pdf"));
       const result = await converter.convert(buf, { extension: ".pdf" });
@@ -66,4 +139,392 @@ describe("PdfConverter", () => {
       );
     });
   });
+
+  describe("multi-column layout", () => {
+    const texts: PdfText[] = [
+      { x: 72, y: 740, text: "A Study of Two Column Layouts", size: 18 },
+    ];
+    for (let i = 1; i <= 8; i++) {
+      texts.push({ x: 72, y: 714 - i * 14, text: `Left column sentence number ${i}.` });
+      texts.push({ x: 320, y: 714 - i * 14, text: `Right column sentence number ${i}.` });
+    }
+    const pdf = buildPdf([{ texts }]);
+
+    it("emits each column in full, in reading order", async () => {
+      const { markdown } = await converter.convert(pdf, { extension: ".pdf" });
+
+      expect(markdown).toMatch(/^# A Study of Two Column Layouts/);
+      expect(markdown).not.toContain("number 1. Right");
+      expect(markdown.indexOf("Left column sentence number 8.")).toBeLessThan(
+        markdown.indexOf("Right column sentence number 1."),
+      );
+    });
+
+    it("reads across the page when detectColumns is false", async () => {
+      const { markdown } = await converter.convert(
+        pdf,
+        { extension: ".pdf" },
+        { detectColumns: false },
+      );
+
+      expect(markdown).toContain(
+        "Left column sentence number 1. Right column sentence number 1.",
+      );
+    });
+  });
+
+  describe("multi-column layout with word-level text items", () => {
+    // Producers emitting one text item per word line the columns' words
+    // up like the cells of a table
+    const left = [
+      "The committee met on a",
+      "Tuesday to review the",
+      "budget and agreed that",
+      "the remaining funds go",
+      "to repairs of the old",
+      "library roof, which has",
+      "leaked since the storms",
+      "of last winter began.",
+    ];
+    const right = [
+      "Members also discussed",
+      "the summer reading list",
+      "and asked volunteers to",
+      "suggest titles for both",
+      "younger and older kids",
+      "before the next meeting",
+      "in May, when the final",
+      "list will be published.",
+    ];
+    const texts: PdfText[] = [];
+    for (let i = 0; i < left.length; i++) {
+      texts.push(...wordTexts(72, 700 - i * 14, left[i]));
+      texts.push(...wordTexts(320, 700 - i * 14, right[i]));
+    }
+    const pdf = buildPdf([{ texts }]);
+
+    it("does not detect the columns as a table", async () => {
+      const { markdown } = await converter.convert(pdf, { extension: ".pdf" });
+
+      expect(markdown).not.toContain("|");
+      expect(markdown).toContain("leaked since the storms");
+      expect(markdown.indexOf("of last winter began.")).toBeLessThan(
+        markdown.indexOf("Members also discussed"),
+      );
+    });
+  });
+
+  describe("OCR fallback", () => {
+    // A "scanned" page: a drawn box and a page number, but no text layer
+    const scanned = buildPdf([
+      { texts: [{ x: 300, y: 30, text: "1" }], graphics: "72 600 200 100 re f" },
+    ]);
+
+    beforeEach(() => {
+      recognize.mockReset();
+      recognize.mockResolvedValue(
+        ocrResult("This agreement is made between the parties.", [
+          [
+            { text: "This", x0: 10, x1: 40, y0: 10 },
+            { text: "agreement", x0: 45, x1: 110, y0: 10 },
+          ],
+        ]),
+      );
+    });
+
+    it("OCRs pages without a text layer when ocr is on", async () => {
+      const { markdown, warnings } = await converter.convert(
+        scanned,
+        { extension: ".pdf" },
+        { ocr: true },
+      );
+
+      expect(markdown).toBe("This agreement is made between the parties.");
+      expect(warnings).toEqual([]);
+      expect(recognize).toHaveBeenCalledOnce();
+      const [image, , output] = recognize.mock.calls[0];
+      expect((image as Buffer).subarray(1, 4).toString()).toBe("PNG");
+      expect(output).toEqual({ blocks: true });
+    });
+
+    it("detects tables from the recognized word boxes", async () => {
+      const cell = (text: string, x0: number, y0: number) => ({
+        text,
+        x0,
+        x1: x0 + text.length * 7,
+        y0,
+      });
+      const rows = [
+        ["Full Name", "Age (years)", "Home City"],
+        ["Alice Marie Smith", "30", "New York"],
+        ["Bob James Lee", "25", "Los Angeles"],
+      ];
+      recognize.mockResolvedValue(
+        ocrResult(
+          rows.map((row) => row.join(" ")).join("\n"),
+          rows.map((row, r) =>
+            row.flatMap((text, c) => {
+              let x = [10, 200, 400][c];
+              return text.split(" ").map((word) => {
+                const w = cell(word, x, 10 + r * 20);
+                x = w.x1 + 5;
+                return w;
+              });
+            }),
+          ),
+        ),
+      );
+      const { markdown } = await converter.convert(
+        scanned,
+        { extension: ".pdf" },
+        { ocr: true },
+      );
+      expect(markdown).toContain("| Full Name | Age (years) | Home City |");
+      expect(markdown).toContain("| Bob James Lee | 25 | Los Angeles |");
+    });
+
+    it("does not OCR when ocr is off", async () => {
+      await converter.convert(scanned, { extension: ".pdf" });
+      expect(recognize).not.toHaveBeenCalled();
+    });
+
+    it("does not OCR pages that have a text layer", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pdf"));
+      await converter.convert(buf, { extension: ".pdf" }, { ocr: true });
+      expect(recognize).not.toHaveBeenCalled();
+    });
+
+    it("reports OCR failures as warnings", async () => {
+      recognize.mockRejectedValue(new Error("language data unavailable"));
+      const onWarning = vi.fn();
+      const result = await converter.convert(
+        scanned,
+        { extension: ".pdf" },
+        { ocr: true, onWarning },
+      );
+
+      const warning = {
+        code: "ocr-failed",
+        message: "OCR failed: language data unavailable",
+        location: { unit: "page", index: 1 },
+      };
+      expect(result.warnings).toMatchObject([warning]);
+      expect(onWarning).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining(warning),
+      );
+    });
+
+    it("reports pages where OCR found no text", async () => {
+      recognize.mockResolvedValue(ocrResult(""));
+      const result = await converter.convert(
+        scanned,
+        { extension: ".pdf" },
+        { ocr: true },
+      );
+      expect(result.warnings?.map((w) => w.code)).toEqual(["ocr-empty"]);
+    });
+
+    it("fails on an empty OCR result in strict mode", async () => {
+      recognize.mockResolvedValue(ocrResult(""));
+      await expect(
+        converter.convert(
+          scanned,
+          { extension: ".pdf" },
+          { ocr: true, strict: true },
+        ),
+      ).rejects.toMatchObject({
+        name: "DegradedConversionError",
+        code: "ocr-empty",
+        location: { unit: "page", index: 1 },
+      });
+    });
+  });
+
+  describe("metadata and outline", () => {
+    const pdf = buildPdf(
+      [
+        {
+          texts: [
+            { x: 72, y: 700, text: "1 Introduction" },
+            { x: 72, y: 680, text: "Body text on page one." },
+            { x: 72, y: 660, text: "1.1 Background" },
+            { x: 72, y: 640, text: "More body text." },
+          ],
+        },
+        {
+          texts: [
+            { x: 72, y: 700, text: "2 Methods" },
+            { x: 72, y: 680, text: "Body text on page two." },
+          ],
+        },
+      ],
+      {
+        info: {
+          Title: "Quarterly Report",
+          Author: "Jane Doe",
+          Subject: "Results",
+          Keywords: "finance, audit",
+          CreationDate: "D:20240315093000Z",
+        },
+        outline: [
+          {
+            title: "1 Introduction",
+            page: 1,
+            children: [{ title: "1.1 Background", page: 1 }],
+          },
+          { title: "2 Methods", page: 2 },
+        ],
+      },
+    );
+
+    it("reads title, author, subject, keywords and creation date", async () => {
+      const result = await converter.convert(pdf, { extension: ".pdf" });
+
+      expect(result.title).toBe("Quarterly Report");
+      expect(result.metadata).toEqual({
+        pageCount: 2,
+        title: "Quarterly Report",
+        author: "Jane Doe",
+        subject: "Results",
+        keywords: ["finance", "audit"],
+        created: "2024-03-15T09:30:00.000Z",
+      });
+    });
+
+    it("maps each page to its range in the markdown", async () => {
+      const { markdown, sections } = await converter.convert(pdf, {
+        extension: ".pdf",
+      });
+
+      expect(sections?.map((s) => s.location)).toEqual([
+        { unit: "page", index: 1 },
+        { unit: "page", index: 2 },
+      ]);
+      const [first, second] = sections!;
+      expect(markdown.slice(first.start, first.end)).toMatch(
+        /^# 1 Introduction[\s\S]*More body text\.$/,
+      );
+      expect(markdown.slice(second.start, second.end)).toBe(
+        "# 2 Methods\n\nBody text on page two.",
+      );
+    });
+
+    it("ignores placeholder metadata", async () => {
+      const buf = await readFile(
+        join(TEST_FILES, "RECEIPT-2024-TXN-98765_retail_purchase.pdf"),
+      );
+      const result = await converter.convert(buf, { extension: ".pdf" });
+
+      expect(result.title).toBeUndefined();
+      expect(result.metadata?.author).toBeUndefined();
+      expect(result.metadata?.subject).toBeUndefined();
+    });
+
+    it("uses bookmark depth as the heading level", async () => {
+      const { markdown } = await converter.convert(pdf, { extension: ".pdf" });
+
+      expect(markdown).toContain("# 1 Introduction");
+      expect(markdown).toContain("## 1.1 Background");
+      expect(markdown).toContain("# 2 Methods");
+      expect(markdown).not.toContain("# Body text");
+    });
+
+    it("emits page markers when pageMarkers is set", async () => {
+      const { markdown } = await converter.convert(
+        pdf,
+        { extension: ".pdf" },
+        { pageMarkers: true },
+      );
+
+      expect(markdown).toMatch(/^<!-- page 1 -->\n\n# 1 Introduction/);
+      expect(markdown).toContain("<!-- page 2 -->\n\n# 2 Methods");
+    });
+
+    it("omits page markers by default", async () => {
+      const { markdown } = await converter.convert(pdf, { extension: ".pdf" });
+      expect(markdown).not.toContain("<!-- page");
+    });
+  });
+
+  describe("progress and cancellation", () => {
+    const threePages = buildPdf(
+      [1, 2, 3].map((n) => ({
+        texts: [{ x: 72, y: 700, text: `Content of page ${n}.` }],
+      })),
+    );
+
+    it("stops between pages and reports how far it got", async () => {
+      const controller = new AbortController();
+      const pages = converter.convertIter(
+        threePages,
+        { extension: ".pdf" },
+        { signal: controller.signal },
+      );
+
+      const first = await pages.next();
+      expect(first.value).toMatchObject({ location: { index: 1 } });
+      controller.abort();
+
+      const error = await pages.next().catch((err) => err);
+      expect(error).toBeInstanceOf(ConversionAbortedError);
+      expect(error.message).toBe("Conversion aborted after 1 of 3 pages");
+      expect(error.progress).toEqual({ unit: "page", current: 1, total: 3 });
+    });
+
+    it("gives up on a page that is still being processed", async () => {
+      const controller = new AbortController();
+      recognize.mockReset();
+      recognize.mockImplementation(() => {
+        controller.abort();
+        return new Promise(() => {});
+      });
+      const scanned = buildPdf([{ texts: [], graphics: "72 600 200 100 re f" }]);
+
+      await expect(
+        converter.convert(
+          scanned,
+          { extension: ".pdf" },
+          { ocr: true, signal: controller.signal },
+        ),
+      ).rejects.toMatchObject({
+        name: "ConversionAbortedError",
+        progress: { unit: "page", current: 0, total: 1 },
+      });
+    });
+
+    it("reports progress before each page and at the end", async () => {
+      const onProgress = vi.fn();
+      await converter.convert(threePages, { extension: ".pdf" }, { onProgress });
+      expect(onProgress.mock.calls.map(([p]) => p)).toEqual(
+        [0, 1, 2, 3].map((current) => ({ unit: "page", current, total: 3 })),
+      );
+    });
+
+    it("does not start when the signal has already fired", async () => {
+      await expect(
+        converter.convert(
+          threePages,
+          { extension: ".pdf" },
+          { signal: AbortSignal.abort() },
+        ),
+      ).rejects.toMatchObject({
+        name: "ConversionAbortedError",
+        progress: { unit: "page", current: 0, total: 3 },
+      });
+    });
+  });
+
+  describe("resource limits", () => {
+    it("refuses documents with more pages than maxPages", async () => {
+      const pdf = buildPdf(
+        [1, 2, 3].map((n) => ({ texts: [{ x: 72, y: 700, text: `Page ${n}` }] })),
+      );
+      const error = await converter
+        .convert(pdf, { extension: ".pdf" }, { limits: { maxPages: 2 } })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error).toMatchObject({ limit: "maxPages", max: 2, actual: 3 });
+      expect(error.message).toBe("Input exceeds maxPages: 3 pages, limit 2");
+    });
+  });
 });
@@ -78,5 +78,35 @@ describe("PlainTextConverter", () => {
       });
       expect(result.markdown).toBe(text);
     });
+
+    it("warns when the charset hint is unknown", async () => {
+      const result = await converter.convert(Buffer.from("hello"), {
+        extension: ".txt",
+        charset: "x-unknown",
+      });
+      expect(result.markdown).toBe("hello");
+      expect(result.metadata?.charset).toBe("utf-8");
+      expect(result.warnings).toMatchObject([
+        {
+          code: "charset-fallback",
+          message: 'Unknown charset "x-unknown", decoded as UTF-8',
+        },
+      ]);
+    });
+  });
+
+  describe("convertStream", () => {
+    it("decodes multi-byte characters split across chunks", async () => {
+      const bytes = Buffer.from("  こんにちは  ", "utf-8");
+      async function* chunks() {
+        for (let i = 0; i < bytes.length; i += 2) {
+          yield bytes.subarray(i, i + 2);
+        }
+      }
+      const result = await converter.convertStream(chunks(), {
+        extension: ".txt",
+      });
+      expect(result.markdown).toBe("こんにちは");
+    });
   });
 });
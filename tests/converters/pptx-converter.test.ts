@@ -1,10 +1,28 @@
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
 import { PptxConverter } from "../../src/converters/pptx-converter.js";
+import { withUnderstatedEntry } from "../helpers/zip-bomb.js";
+import {
+  ConversionAbortedError,
+  ResourceLimitError,
+} from "../../src/errors.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
+/** test.pptx with one part's XML rewritten */
+async function withEditedPart(
+  path: string,
+  edit: (xml: string) => string,
+): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(
+    await readFile(join(TEST_FILES, "test.pptx")),
+  );
+  zip.file(path, edit(await zip.file(path)!.async("string")));
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
 describe("PptxConverter", () => {
   const converter = new PptxConverter();
 
@@ -41,6 +59,46 @@ describe("PptxConverter", () => {
       );
     });
 
+    it("exports slide images to onImage", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const images: [string, string][] = [];
+      const result = await converter.convert(
+        buf,
+        { extension: ".pptx" },
+        {
+          onImage: async (_bytes, mimetype, name) => {
+            images.push([mimetype, name]);
+            return `media/${name}`;
+          },
+        },
+      );
+      expect(images).toEqual([
+        ["image/jpeg", "image1.jpg"],
+        ["image/jpeg", "image2.jpg"],
+      ]);
+      expect(result.markdown).toContain(
+        "# These Test Strings are in the Image!\n\n![](media/image2.jpg)",
+      );
+    });
+
+    it("warns about slides whose part is missing", async () => {
+      const zip = await JSZip.loadAsync(
+        await readFile(join(TEST_FILES, "test.pptx")),
+      );
+      zip.remove("ppt/slides/slide2.xml");
+      const buf = await zip.generateAsync({ type: "nodebuffer" });
+
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      expect(result.warnings).toEqual([
+        {
+          code: "missing-part",
+          message: "Slide part ppt/slides/slide2.xml is missing",
+          location: { unit: "slide", index: 2 },
+        },
+      ]);
+      expect(result.sections?.map((s) => s.location.index)).not.toContain(2);
+    });
+
     it("extracts image references", async () => {
       const buf = await readFile(join(TEST_FILES, "test.pptx"));
       const result = await converter.convert(buf, { extension: ".pptx" });
@@ -49,4 +107,336 @@ describe("PptxConverter", () => {
       expect(result.markdown).toMatch(/!\[.*\]\(.*\)/);
     });
   });
+
+  describe("slide structure", () => {
+    it("starts each slide with a marker and maps placeholders", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      expect(result.markdown).toMatch(
+        /^<!-- Slide 1 -->\n\n# AutoGen: Enabling .*\n\n## Qingyun Wu , Gagan Bansal/,
+      );
+      expect(result.markdown).toContain("<!-- Slide 6 -->\n\n# These Test Strings");
+    });
+
+    it("flags hidden slides, or includes or skips them on request", async () => {
+      const buf = await withEditedPart("ppt/slides/slide3.xml", (xml) =>
+        xml.replace("<p:sld ", '<p:sld show="0" '),
+      );
+      const flagged = await converter.convert(buf, { extension: ".pptx" });
+      expect(flagged.markdown).toContain(
+        "<!-- Slide 3 (hidden) -->\n\n# A table to test parsing:",
+      );
+
+      const included = await converter.convert(
+        buf,
+        { extension: ".pptx" },
+        { hiddenSlides: "include" },
+      );
+      expect(included.markdown).toContain(
+        "<!-- Slide 3 -->\n\n# A table to test parsing:",
+      );
+
+      const skipped = await converter.convert(
+        buf,
+        { extension: ".pptx" },
+        { hiddenSlides: "skip" },
+      );
+      expect(skipped.markdown).not.toContain("A table to test parsing");
+      expect(skipped.markdown).toContain("<!-- Slide 4 -->");
+      expect(skipped.sections?.map((s) => s.location.index)).toEqual([
+        1, 2, 4, 5, 6,
+      ]);
+    });
+
+    it("takes placeholder types and positions from the layout", async () => {
+      // Subtitle first in the tree, referenced by idx only, without a position
+      const buf = await withEditedPart("ppt/slides/slide1.xml", (xml) => {
+        const shapes = xml.match(/<p:sp>.*?<\/p:sp>/g)!;
+        return xml
+          .replace(shapes[0] + shapes[1], shapes[1] + shapes[0])
+          .replace('<p:ph type="subTitle" idx="1"/>', '<p:ph idx="1"/>');
+      });
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      expect(result.markdown).toMatch(
+        /^<!-- Slide 1 -->\n\n# AutoGen: .*\n\n## Qingyun Wu/,
+      );
+    });
+  });
+
+  describe("text formatting", () => {
+    /** test.pptx with slide 6 replaced by a body placeholder with `paragraphs` */
+    async function withBody(paragraphs: string): Promise<Buffer> {
+      const zip = await JSZip.loadAsync(
+        await readFile(join(TEST_FILES, "test.pptx")),
+      );
+      zip.file(
+        "ppt/slides/slide6.xml",
+        `<p:sld xmlns:a="a" xmlns:r="r" xmlns:p="p"><p:cSld><p:spTree>
+          <p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr>
+          <p:txBody>${paragraphs}</p:txBody></p:sp>
+        </p:spTree></p:cSld></p:sld>`,
+      );
+      zip.file(
+        "ppt/slides/_rels/slide6.xml.rels",
+        `<Relationships>
+          <Relationship Id="rId1" Target="../slideLayouts/slideLayout2.xml"/>
+          <Relationship Id="rId2" Target="https://example.com/docs" TargetMode="External"/>
+          <Relationship Id="rId3" Target="slide2.xml"/>
+        </Relationships>`,
+      );
+      return zip.generateAsync({ type: "nodebuffer" });
+    }
+
+    async function lastSlide(buf: Buffer): Promise<string> {
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      return result.markdown.split("<!-- Slide 6 -->\n\n")[1];
+    }
+
+    it("renders nested bullets and numbered lists", async () => {
+      const buf = await withBody(`
+        <a:p><a:r><a:t>Goals</a:t></a:r></a:p>
+        <a:p><a:pPr lvl="1"/><a:r><a:t>Fast</a:t></a:r></a:p>
+        <a:p><a:pPr lvl="2"><a:buAutoNum type="arabicPeriod"/></a:pPr><a:r><a:t>Parse</a:t></a:r></a:p>
+        <a:p><a:pPr lvl="2"><a:buAutoNum type="arabicPeriod"/></a:pPr><a:r><a:t>Render</a:t></a:r></a:p>
+        <a:p><a:pPr lvl="1"/><a:r><a:t>Correct</a:t></a:r></a:p>
+        <a:p><a:pPr><a:buAutoNum type="arabicPeriod" startAt="3"/></a:pPr><a:r><a:t>Third</a:t></a:r></a:p>
+        <a:p><a:pPr><a:buNone/></a:pPr><a:r><a:t>Closing words</a:t></a:r></a:p>`);
+      expect(await lastSlide(buf)).toBe(
+        [
+          "- Goals",
+          "    - Fast",
+          "        1. Parse",
+          "        2. Render",
+          "    - Correct",
+          "3. Third",
+          "",
+          "Closing words",
+        ].join("\n"),
+      );
+    });
+
+    it("keeps bold, italic and links to URLs", async () => {
+      const buf = await withBody(`
+        <a:p><a:pPr><a:buNone/></a:pPr>
+          <a:r><a:rPr b="1"/><a:t>Bold</a:t></a:r>
+          <a:r><a:rPr b="1" lang="en-US"/><a:t>er </a:t></a:r>
+          <a:r><a:rPr i="1"/><a:t>italic</a:t></a:r>
+          <a:r><a:rPr><a:hlinkClick r:id="rId2"/></a:rPr><a:t> docs</a:t></a:r>
+          <a:r><a:rPr><a:hlinkClick r:id="rId3"/></a:rPr><a:t> slide 2</a:t></a:r>
+        </a:p>`);
+      expect(await lastSlide(buf)).toBe(
+        "**Bolder** *italic* [docs](https://example.com/docs) slide 2",
+      );
+    });
+  });
+
+  describe("tables", () => {
+    /** Replace the table on slide 3 with `rows` and table properties `tblPr` */
+    async function slide3Table(tblPr: string, rows: string): Promise<string> {
+      const buf = await withEditedPart("ppt/slides/slide3.xml", (xml) =>
+        xml.replace(
+          /<a:tbl>.*<\/a:tbl>/s,
+          `<a:tbl>${tblPr}<a:tblGrid><a:gridCol/><a:gridCol/><a:gridCol/></a:tblGrid>${rows}</a:tbl>`,
+        ),
+      );
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      const [, slide] = result.markdown.split("# A table to test parsing:\n\n");
+      return slide.split("\n\n")[0];
+    }
+
+    const cell = (text: string, attrs = "") =>
+      `<a:tc${attrs}><a:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></a:txBody></a:tc>`;
+
+    it("blanks the cells covered by merged cells", async () => {
+      const table = await slide3Table(
+        '<a:tblPr firstRow="1"/>',
+        `<a:tr>${cell("Region", ' rowSpan="2"')}${cell("Sales", ' gridSpan="2"')}${cell("stale", ' hMerge="1"')}</a:tr>
+         <a:tr>${cell("stale", ' vMerge="1"')}${cell("Q1")}${cell("Q2")}</a:tr>
+         <a:tr>${cell("North")}${cell("10")}${cell("12")}</a:tr>`,
+      );
+      expect(table).toBe(
+        [
+          "| Region | Sales |  |",
+          "| --- | --- | --- |",
+          "|  | Q1 | Q2 |",
+          "| North | 10 | 12 |",
+        ].join("\n"),
+      );
+
+      // Writers may leave the covered cells out
+      const sparse = await slide3Table(
+        '<a:tblPr firstRow="1"/>',
+        `<a:tr>${cell("Region", ' rowSpan="2"')}${cell("Sales", ' gridSpan="2"')}</a:tr>
+         <a:tr>${cell("Q1")}${cell("Q2")}</a:tr>
+         <a:tr>${cell("North")}${cell("10")}${cell("12")}</a:tr>`,
+      );
+      expect(sparse).toBe(table);
+    });
+
+    it("leaves the header empty without firstRow and keeps paragraphs", async () => {
+      const table = await slide3Table(
+        "<a:tblPr/>",
+        `<a:tr>${cell("a|b")}${cell("x")}<a:tc><a:txBody>
+          <a:p><a:r><a:t>one</a:t></a:r></a:p><a:p/>
+          <a:p><a:r><a:t>two</a:t></a:r></a:p>
+        </a:txBody></a:tc></a:tr>`,
+      );
+      expect(table).toBe(
+        ["|  |  |  |", "| --- | --- | --- |", "| a\\|b | x | one<br>two |"].join(
+          "\n",
+        ),
+      );
+    });
+  });
+
+  describe("charts", () => {
+    it("renders the chart title, type and cached data as a table", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      expect(result.markdown).toContain(
+        [
+          "### Bar chart: a3f6004b-6f4f-4ea8-bee3-3741f4dc385f",
+          "",
+          "| Category | Series 1 |",
+          "| --- | --- |",
+          "| 2000 | 2000 |",
+          "| 2001 | 2001 |",
+        ].join("\n"),
+      );
+    });
+
+    it("warns when the chart part is missing", async () => {
+      const zip = await JSZip.loadAsync(
+        await readFile(join(TEST_FILES, "test.pptx")),
+      );
+      zip.remove("ppt/charts/chart1.xml");
+      const buf = await zip.generateAsync({ type: "nodebuffer" });
+
+      const result = await converter.convert(buf, { extension: ".pptx" });
+      expect(result.warnings).toMatchObject([
+        {
+          code: "missing-part",
+          message: "Chart part ppt/charts/chart1.xml is missing",
+        },
+      ]);
+      expect(result.markdown).toMatch(/# A\schart\sto\stest\sparsing:\n\n<!-- Slide 5 -->/);
+    });
+  });
+
+  describe("convertIter", () => {
+    it("yields one chunk per slide that joins to the full output", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const full = await converter.convert(buf, { extension: ".pptx" });
+
+      const chunks = [];
+      for await (const chunk of converter.convertIter(buf, { extension: ".pptx" })) {
+        chunks.push(chunk);
+      }
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every((c) => c.location.unit === "slide")).toBe(true);
+      expect(chunks.map((c) => c.markdown).join("\n\n").trim()).toBe(full.markdown);
+    });
+  });
+
+  describe("metadata and sections", () => {
+    it("reads core properties and the slide count", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const result = await converter.convert(buf, { extension: ".pptx" });
+
+      expect(result.title).toBe(
+        "AutoGen: Enabling Next-Gen LLM Applications via Multi-Agent Conversation",
+      );
+      expect(result.metadata).toMatchObject({
+        author: "Adam Fourney",
+        created: "2024-03-15T05:57:54.000Z",
+        modified: "2025-03-05T05:28:17.000Z",
+      });
+      expect(result.metadata?.slideCount).toBeGreaterThan(1);
+    });
+
+    it("maps each slide to the range of its chunk", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const { markdown, sections } = await converter.convert(buf, {
+        extension: ".pptx",
+      });
+
+      const chunks = [];
+      for await (const chunk of converter.convertIter(buf, { extension: ".pptx" })) {
+        chunks.push(chunk);
+      }
+      expect(sections?.map((s) => s.location)).toEqual(
+        chunks.map((c) => c.location),
+      );
+      sections!.forEach((section, i) => {
+        expect(markdown.slice(section.start, section.end)).toBe(
+          chunks[i].markdown.trim(),
+        );
+      });
+    });
+  });
+
+  describe("progress and cancellation", () => {
+    it("reports progress through the slide list", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const progress: { current: number; total: number }[] = [];
+      const result = await converter.convert(
+        buf,
+        { extension: ".pptx" },
+        { onProgress: (p) => progress.push(p) },
+      );
+
+      const total = result.metadata!.slideCount!;
+      expect(progress).toHaveLength(total + 1);
+      expect(progress[0]).toEqual({ unit: "slide", current: 0, total });
+      expect(progress[total]).toEqual({ unit: "slide", current: total, total });
+    });
+
+    it("stops before the first slide when already aborted", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const error = await converter
+        .convert(buf, { extension: ".pptx" }, { signal: AbortSignal.abort() })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ConversionAbortedError);
+      expect(error.progress).toMatchObject({ unit: "slide", current: 0 });
+    });
+  });
+
+  describe("resource limits", () => {
+    it("checks the archive before parsing it", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      await expect(
+        converter.convert(buf, { extension: ".pptx" }, {
+          limits: { maxUncompressedBytes: 1024 },
+        }),
+      ).rejects.toMatchObject({ limit: "maxUncompressedBytes", max: 1024 });
+      await expect(
+        converter.convert(buf, { extension: ".pptx" }, {
+          limits: { maxArchiveEntries: 5 },
+        }),
+      ).rejects.toThrow(ResourceLimitError);
+    });
+
+    it("counts inflated bytes instead of trusting declared sizes", async () => {
+      const buf = await withUnderstatedEntry(
+        await readFile(join(TEST_FILES, "test.pptx")),
+        4 * 1024 * 1024,
+      );
+      const error = await converter
+        .convert(buf, { extension: ".pptx" }, {
+          limits: { maxUncompressedBytes: 1024 * 1024 },
+        })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error).toMatchObject({ limit: "maxUncompressedBytes" });
+    });
+
+    it("refuses presentations with more slides than maxSlides", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.pptx"));
+      const error = await converter
+        .convert(buf, { extension: ".pptx" }, { limits: { maxSlides: 1 } })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error).toMatchObject({ limit: "maxSlides", max: 1 });
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { StackExchangeConverter } from "../../src/converters/stackexchange-converter.js";
+
+const PAGE = `
+<html><head><title>How do I reverse a list? - Stack Overflow</title></head>
+<body>
+  <div id="left-sidebar"><a href="/questions">Questions</a></div>
+  <div id="question-header"><h1><a href="/questions/1/how-do-i-reverse-a-list">How do I reverse a list?</a></h1></div>
+  <div id="question" class="question" data-score="42">
+    <div class="s-prose js-post-body"><p>I have <code>[1, 2, 3]</code> and want it reversed.</p></div>
+    <div class="post-signature owner"><div class="user-details"><a href="/users/1">alice</a></div></div>
+  </div>
+  <div id="answers">
+    <div class="answer" data-score="7">
+      <div class="s-prose js-post-body"><p>Use a loop.</p></div>
+      <div class="post-signature"><div class="user-details"><a href="/users/3">carol</a></div></div>
+    </div>
+    <div class="answer" data-score="15">
+      <div class="s-prose js-post-body"><p>Use slicing.</p></div>
+      <div class="post-signature"><div class="user-details"><a href="/users/4">dave</a></div></div>
+    </div>
+    <div class="answer accepted-answer" data-score="3">
+      <div class="s-prose js-post-body"><p>Call <code>list.reverse()</code>.</p></div>
+      <div class="post-signature"><div class="user-details"><a href="/users/5">editor</a></div></div>
+      <div class="post-signature"><div class="user-details"><a href="/users/2">bob</a></div></div>
+    </div>
+  </div>
+</body></html>`;
+
+describe("StackExchangeConverter", () => {
+  const converter = new StackExchangeConverter();
+
+  describe("accepts", () => {
+    it("accepts saved Q&A pages by DOM signature", () => {
+      expect(converter.accepts(Buffer.from(PAGE), { extension: ".html" })).toBe(true);
+    });
+
+    it("accepts Stack Exchange question URLs", () => {
+      for (const url of [
+        "https://stackoverflow.com/questions/1/how-do-i-reverse-a-list",
+        "https://unix.stackexchange.com/questions/2/foo",
+        "https://superuser.com/questions/3/bar",
+      ]) {
+        expect(
+          converter.accepts(Buffer.from(""), { mimetype: "text/html", url }),
+        ).toBe(true);
+      }
+    });
+
+    it("accepts saved Q&A pages served from other URLs", () => {
+      expect(
+        converter.accepts(Buffer.from(PAGE), {
+          mimetype: "text/html",
+          url: "https://archive.example.org/stackoverflow/1",
+        }),
+      ).toBe(true);
+    });
+
+    it("rejects other pages", () => {
+      expect(
+        converter.accepts(Buffer.from("<p>hi</p>"), {
+          extension: ".html",
+          url: "https://stackoverflow.com/users/1",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("convert", () => {
+    it("emits the question and ranked answers with scores and authors", async () => {
+      const result = await converter.convert(Buffer.from(PAGE), {
+        extension: ".html",
+      });
+
+      expect(result.title).toBe("How do I reverse a list?");
+      expect(result.markdown).toContain("# How do I reverse a list?");
+      expect(result.markdown).toContain("## Question (score: 42) by alice");
+      expect(result.markdown).toContain("I have `[1, 2, 3]` and want it reversed.");
+      expect(result.markdown).not.toContain("left-sidebar");
+
+      const accepted = result.markdown.indexOf("### Accepted answer (score: 3) by bob");
+      const top = result.markdown.indexOf("### Answer (score: 15) by dave");
+      const low = result.markdown.indexOf("### Answer (score: 7) by carol");
+      expect(accepted).toBeGreaterThan(0);
+      expect(top).toBeGreaterThan(accepted);
+      expect(low).toBeGreaterThan(top);
+    });
+  });
+
+  it("exports data URI images in posts", async () => {
+    const page = PAGE.replace(
+      "<p>Use a loop.</p>",
+      '<p>Use a loop.</p><img alt="chart" src="data:image/gif;base64,R0lGODlhAQABAAAAACw=">',
+    );
+    const result = await converter.convert(
+      Buffer.from(page),
+      { extension: ".html" },
+      { onImage: (_bytes, _mimetype, name) => `assets/${name}` },
+    );
+    expect(result.markdown).toContain("![chart](assets/image1.gif)");
+  });
+});
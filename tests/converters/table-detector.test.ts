@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   detectTables,
+  detectTableRegions,
   mergeMasterFormatNumbering,
   type PositionedWord,
 } from "../../src/converters/table-detector.js";
@@ -121,6 +122,44 @@ describe("TableDetector", () => {
     });
   });
 
+  describe("detectTableRegions", () => {
+    const tableWords: PositionedWord[] = [
+      { text: "Item", x0: 10, x1: 40, top: 100 },
+      { text: "Name", x0: 45, x1: 80, top: 100 },
+      { text: "Qty", x0: 200, x1: 225, top: 100 },
+      { text: "Unit", x0: 400, x1: 430, top: 100 },
+      { text: "Price", x0: 435, x1: 470, top: 100 },
+
+      { text: "Blue", x0: 10, x1: 38, top: 120 },
+      { text: "Widget", x0: 43, x1: 88, top: 120 },
+      { text: "5", x0: 200, x1: 208, top: 120 },
+      { text: "$10", x0: 400, x1: 425, top: 120 },
+
+      { text: "Red", x0: 10, x1: 35, top: 140 },
+      { text: "Gadget", x0: 40, x1: 85, top: 140 },
+      { text: "3", x0: 200, x1: 208, top: 140 },
+      { text: "$20", x0: 400, x1: 425, top: 140 },
+    ];
+
+    it("returns the table with its vertical extent", () => {
+      const words: PositionedWord[] = [
+        { text: "Quarterly order summary", x0: 10, x1: 180, top: 40 },
+        ...tableWords,
+      ];
+
+      const regions = detectTableRegions(words, { pageWidth: 600 });
+      expect(regions).toHaveLength(1);
+      expect(regions![0].top).toBe(100);
+      expect(regions![0].bottom).toBe(140);
+      expect(regions![0].markdown).toContain("| Item Name | Qty | Unit Price |");
+      expect(regions![0].markdown).not.toContain("Quarterly");
+    });
+
+    it("returns null when there is no table", () => {
+      expect(detectTableRegions([], { pageWidth: 600 })).toBeNull();
+    });
+  });
+
   describe("mergeMasterFormatNumbering", () => {
     it("merges partial numbering with next line", () => {
       const input = ".1\nThe intent of this Request\n.2\nAvailable information";
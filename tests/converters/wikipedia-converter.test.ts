@@ -0,0 +1,91 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, it, expect } from "vitest";
+import { WikipediaConverter } from "../../src/converters/wikipedia-converter.js";
+import { Mdize } from "../../src/mdize.js";
+
+const TEST_FILES = join(import.meta.dirname, "../test-files");
+
+describe("WikipediaConverter", () => {
+  const converter = new WikipediaConverter();
+
+  describe("accepts", () => {
+    it("accepts saved Wikipedia pages by DOM signature", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_wikipedia.html"));
+      expect(converter.accepts(buf, { extension: ".html" })).toBe(true);
+    });
+
+    it("accepts Wikipedia URLs", () => {
+      expect(
+        converter.accepts(Buffer.from("<html></html>"), {
+          mimetype: "text/html",
+          url: "https://en.wikipedia.org/wiki/Microsoft",
+        }),
+      ).toBe(true);
+    });
+
+    it("accepts saved pages served from other URLs", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_wikipedia.html"));
+      expect(
+        converter.accepts(buf, {
+          mimetype: "text/html",
+          url: "https://mirror.example.org/wiki/Microsoft",
+        }),
+      ).toBe(true);
+    });
+
+    it("rejects other HTML pages", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_blog.html"));
+      expect(converter.accepts(buf, { extension: ".html" })).toBe(false);
+    });
+
+    it("rejects non-HTML input", () => {
+      expect(
+        converter.accepts(Buffer.from(""), {
+          extension: ".pdf",
+          url: "https://en.wikipedia.org/wiki/Microsoft",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("convert", () => {
+    it("converts the article body without page chrome or infobox", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_wikipedia.html"));
+      const result = await converter.convert(buf, { extension: ".html" });
+
+      expect(result.title).toBe("Microsoft");
+      expect(result.markdown.startsWith("# Microsoft\n")).toBe(true);
+      expect(result.markdown).toContain(
+        "Microsoft entered the operating system (OS) business in 1980 with its own version of [Unix]",
+      );
+      expect(result.markdown).toContain(
+        'Microsoft was founded by [Bill Gates](/wiki/Bill_Gates "Bill Gates")',
+      );
+      expect(result.markdown).not.toContain("You are encouraged to create an account and log in");
+      expect(result.markdown).not.toContain("move to sidebar");
+      expect(result.markdown).not.toContain("infobox");
+      expect(result.markdown).not.toContain("[edit]");
+    });
+
+    it("is picked ahead of HtmlConverter by Mdize", async () => {
+      const result = await new Mdize().convertFile(
+        join(TEST_FILES, "test_wikipedia.html"),
+      );
+      expect(result.title).toBe("Microsoft");
+    });
+  });
+
+  it("exports data URI images in the article", async () => {
+    const page =
+      '<html><body><h1 id="firstHeading">Chart</h1><div id="mw-content-text">' +
+      '<p>A chart.</p><img alt="chart" src="data:image/gif;base64,R0lGODlhAQABAAAAACw=">' +
+      "</div></body></html>";
+    const result = await converter.convert(
+      Buffer.from(page),
+      { extension: ".html" },
+      { onImage: (_bytes, _mimetype, name) => `assets/${name}` },
+    );
+    expect(result.markdown).toContain("![chart](assets/image1.gif)");
+  });
+});
@@ -1,7 +1,12 @@
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { XlsxConverter } from "../../src/converters/xlsx-converter.js";
+import { withUnderstatedEntry } from "../helpers/zip-bomb.js";
+import {
+  ConversionAbortedError,
+  ResourceLimitError,
+} from "../../src/errors.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
@@ -41,5 +46,85 @@ describe("XlsxConverter", () => {
       const result = await converter.convert(buf, { extension: ".xlsx" });
       expect(result.markdown).toMatch(/^## /m);
     });
+
+    it("lists sheet names and maps each sheet to its section", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.xlsx"));
+      const { markdown, metadata, sections } = await converter.convert(buf, {
+        extension: ".xlsx",
+      });
+
+      expect(metadata?.author).toBe("Adam Fourney");
+      expect(metadata?.sheetNames?.length).toBeGreaterThan(0);
+      expect(sections?.map((s) => s.location.name)).toEqual(metadata?.sheetNames);
+      for (const section of sections!) {
+        expect(markdown.slice(section.start, section.end)).toMatch(
+          new RegExp(`^## ${section.location.name}\\n`),
+        );
+      }
+    });
+  });
+
+  describe("progress and cancellation", () => {
+    it("reports progress per worksheet", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.xlsx"));
+      const onProgress = vi.fn();
+      const result = await converter.convert(
+        buf,
+        { extension: ".xlsx" },
+        { onProgress },
+      );
+
+      const total = result.metadata!.sheetNames!.length;
+      expect(onProgress).toHaveBeenCalledTimes(total + 1);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        unit: "sheet",
+        current: total,
+        total,
+      });
+    });
+
+    it("stops between sheets", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.xlsx"));
+      const controller = new AbortController();
+      const sheets = converter.convertIter(
+        buf,
+        { extension: ".xlsx" },
+        { signal: controller.signal },
+      );
+
+      await sheets.next();
+      controller.abort();
+      const error = await sheets.next().catch((err) => err);
+      expect(error).toBeInstanceOf(ConversionAbortedError);
+      expect(error.progress).toMatchObject({ unit: "sheet", current: 1 });
+    });
+  });
+
+  describe("resource limits", () => {
+    it("refuses workbooks over maxSheets or maxRows", async () => {
+      const buf = await readFile(join(TEST_FILES, "test.xlsx"));
+      await expect(
+        converter.convert(buf, { extension: ".xlsx" }, {
+          limits: { maxSheets: 1 },
+        }),
+      ).rejects.toMatchObject({ limit: "maxSheets", max: 1, actual: 2 });
+      await expect(
+        converter.convert(buf, { extension: ".xlsx" }, {
+          limits: { maxRows: 2 },
+        }),
+      ).rejects.toThrow(ResourceLimitError);
+    });
+
+    it("stops inflating before ExcelJS sees an oversized archive", async () => {
+      const buf = await withUnderstatedEntry(
+        await readFile(join(TEST_FILES, "test.xlsx")),
+        4 * 1024 * 1024,
+      );
+      await expect(
+        converter.convert(buf, { extension: ".xlsx" }, {
+          limits: { maxUncompressedBytes: 1024 * 1024 },
+        }),
+      ).rejects.toMatchObject({ limit: "maxUncompressedBytes" });
+    });
   });
 });
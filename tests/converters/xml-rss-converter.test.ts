@@ -1,10 +1,16 @@
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { XmlRssConverter } from "../../src/converters/xml-rss-converter.js";
 
 const TEST_FILES = join(import.meta.dirname, "../test-files");
 
+async function* chunked(buf: Buffer, size: number): AsyncGenerator<Buffer> {
+  for (let i = 0; i < buf.length; i += size) {
+    yield buf.subarray(i, i + size);
+  }
+}
+
 describe("XmlRssConverter", () => {
   const converter = new XmlRssConverter();
 
@@ -51,5 +57,89 @@ describe("XmlRssConverter", () => {
       const result = await converter.convert(buf, { extension: ".xml" });
       expect(result.markdown).toMatch(/^# /m);
     });
+
+    it("reports channel metadata and one section per item", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      const { markdown, metadata, sections } = await converter.convert(buf, {
+        extension: ".xml",
+      });
+
+      expect(metadata).toMatchObject({
+        title: "The Official Microsoft Blog",
+        link: "https://blogs.microsoft.com/",
+        language: "en-US",
+        modified: "2024-12-09T20:26:59.000Z",
+      });
+      const items = sections!.filter((s) => s.location.unit === "item");
+      expect(items).toHaveLength(metadata!.itemCount!);
+      expect(items[0].location.name).toMatch(/^Ignite 2024/);
+      expect(markdown.slice(items[0].start, items[0].end)).toMatch(
+        /^## \[Ignite 2024/,
+      );
+    });
+  });
+
+  describe("convertStream", () => {
+    it("renders the same markdown as convert", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      const expected = await converter.convert(buf, { extension: ".xml" });
+      const result = await converter.convertStream(chunked(buf, 257), {
+        extension: ".xml",
+      });
+      expect(result.markdown).toBe(expected.markdown);
+      expect(result.title).toBe(expected.title);
+      expect(result.metadata).toEqual(expected.metadata);
+      expect(result.sections).toEqual(expected.sections);
+    });
+
+    it("accepts the truncated head of a feed", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      expect(
+        converter.accepts(buf.subarray(0, 1000), { extension: ".xml" }),
+      ).toBe(true);
+    });
+  });
+
+  describe("progress", () => {
+    it("reports progress through the feed items", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      const onProgress = vi.fn();
+      const result = await converter.convert(
+        buf,
+        { extension: ".xml" },
+        { onProgress },
+      );
+
+      const total = result.metadata!.itemCount!;
+      expect(total).toBeGreaterThan(0);
+      expect(onProgress).toHaveBeenCalledTimes(total + 1);
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        unit: "item",
+        current: 0,
+        total,
+      });
+    });
+
+    it("reports progress while a feed is streamed", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      const onProgress = vi.fn();
+      const result = await converter.convertStream(
+        chunked(buf, 257),
+        { extension: ".xml" },
+        { onProgress },
+      );
+
+      const total = result.metadata!.itemCount!;
+      expect(onProgress).toHaveBeenCalledTimes(total + 1);
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        unit: "item",
+        current: 0,
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        unit: "item",
+        current: total,
+        total,
+      });
+    });
   });
 });
@@ -1,7 +1,19 @@
+import { getEventListeners } from "node:events";
+import { createReadStream } from "node:fs";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { describe, it, expect } from "vitest";
-import { Mdize, UnsupportedFormatError } from "../src/index.js";
+import { Readable } from "node:stream";
+import { describe, it, expect, vi } from "vitest";
+import JSZip from "jszip";
+import {
+  Mdize,
+  PRIORITY_GENERIC,
+  UnsupportedFormatError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  ResourceLimitError,
+  throwIfAborted,
+} from "../src/index.js";
 
 const TEST_FILES = join(import.meta.dirname, "test-files");
 
@@ -122,6 +134,78 @@ describe("Mdize (integration)", () => {
     });
   });
 
+  describe("convertStream", () => {
+    it("streams large CSV input through the CSV converter", async () => {
+      const rows = ["id,name"];
+      for (let i = 0; i < 5000; i++) rows.push(`${i},row-${i}`);
+      const source = Readable.from([Buffer.from(rows.join("\n"))]);
+      const result = await converter.convertStream(source, {
+        extension: ".csv",
+      });
+      expect(result.markdown).toContain("| id | name |");
+      expect(result.markdown).toContain("| 4999 | row-4999 |");
+    });
+
+    it("buffers the stream for non-streaming converters", async () => {
+      const source = createReadStream(join(TEST_FILES, "test.docx"));
+      const result = await converter.convertStream(source);
+      expect(result.markdown).toContain("314b0a30-5b04-470b-b9f7-eed2c2bec74a");
+    });
+
+    it("accepts a web ReadableStream", async () => {
+      const buf = await readFile(join(TEST_FILES, "test_rss.xml"));
+      const source = new Blob([buf]).stream();
+      const result = await converter.convertStream(source, {
+        extension: ".xml",
+      });
+      expect(result.markdown).toContain("The Official Microsoft Blog");
+    });
+  });
+
+  describe("convertIter", () => {
+    async function collect(source: string) {
+      const chunks = [];
+      for await (const chunk of converter.convertIter(source)) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    it("yields PDF pages in order", async () => {
+      const chunks = await collect(join(TEST_FILES, "test.pdf"));
+      expect(chunks.length).toBeGreaterThan(0);
+      expect(chunks.every((c) => c.location.unit === "page")).toBe(true);
+      expect(chunks[0].location.index).toBe(1);
+      const pages = chunks.map((c) => c.location.index!);
+      expect(pages).toEqual([...pages].sort((a, b) => a - b));
+      expect(chunks.map((c) => c.markdown).join("\n\n")).toContain(
+        "While there is contemporaneous exploration of multi-agent approaches",
+      );
+    });
+
+    it("yields XLSX sheets with their names", async () => {
+      const chunks = await collect(join(TEST_FILES, "test.xlsx"));
+      expect(chunks.length).toBeGreaterThan(0);
+      for (const chunk of chunks) {
+        expect(chunk.location.unit).toBe("sheet");
+        expect(chunk.markdown).toContain(`## ${chunk.location.name}`);
+      }
+    });
+
+    it("yields RSS items after the feed header", async () => {
+      const chunks = await collect(join(TEST_FILES, "test_rss.xml"));
+      expect(chunks[0].location.unit).toBe("document");
+      expect(chunks[0].markdown).toContain("The Official Microsoft Blog");
+      expect(chunks.slice(1).every((c) => c.location.unit === "item")).toBe(true);
+    });
+
+    it("yields a single chunk for converters without iteration", async () => {
+      const chunks = await collect(join(TEST_FILES, "test.docx"));
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].location).toEqual({ unit: "document" });
+    });
+  });
+
   describe("convert (auto-detect)", () => {
     it("accepts file path string", async () => {
       const result = await converter.convert(
@@ -148,6 +232,193 @@ describe("Mdize (integration)", () => {
     });
   });
 
+  describe("warnings", () => {
+    it("reports a converter that failed before the fallback succeeded", async () => {
+      const custom = new Mdize({ enableBuiltins: false });
+      custom.register({
+        accepts: () => true,
+        convert: async () => {
+          throw new Error("broken input");
+        },
+      } as any);
+      custom.register(
+        {
+          accepts: () => true,
+          convert: async () => ({ markdown: "fallback output" }),
+        } as any,
+        PRIORITY_GENERIC,
+      );
+
+      const seen: string[] = [];
+      const result = await custom.convertBuffer(
+        Buffer.from("test"),
+        { extension: ".txt" },
+        { onWarning: (w) => seen.push(w.code) },
+      );
+      expect(result.markdown).toBe("fallback output");
+      expect(result.warnings).toMatchObject([
+        { code: "converter-failed", message: "Object failed: broken input" },
+      ]);
+      expect(seen).toEqual(["converter-failed"]);
+    });
+
+    it("returns an empty list for clean conversions", async () => {
+      const result = await converter.convertFile(join(TEST_FILES, "test.pptx"));
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe("strict mode", () => {
+    it("throws instead of skipping a slide whose part is missing", async () => {
+      const zip = await JSZip.loadAsync(
+        await readFile(join(TEST_FILES, "test.pptx")),
+      );
+      zip.remove("ppt/slides/slide2.xml");
+      const buf = await zip.generateAsync({ type: "nodebuffer" });
+
+      const error = await converter
+        .convertBuffer(buf, { extension: ".pptx" }, { strict: true })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(DegradedConversionError);
+      expect(error).toMatchObject({
+        code: "missing-part",
+        location: { unit: "slide", index: 2 },
+        message: "Slide part ppt/slides/slide2.xml is missing (slide 2)",
+      });
+    });
+
+    it("throws instead of falling back to UTF-8", async () => {
+      await expect(
+        converter.convertBuffer(
+          Buffer.from("hello"),
+          { extension: ".txt", charset: "x-unknown" },
+          { strict: true },
+        ),
+      ).rejects.toThrow(DegradedConversionError);
+    });
+
+    it("keeps the failed converter's error as the cause", async () => {
+      const custom = new Mdize({ enableBuiltins: false });
+      const failure = new Error("broken input");
+      custom.register({
+        accepts: () => true,
+        convert: async () => {
+          throw failure;
+        },
+      } as any);
+      custom.register(
+        {
+          accepts: () => true,
+          convert: async () => ({ markdown: "fallback output" }),
+        } as any,
+        PRIORITY_GENERIC,
+      );
+
+      const error = await custom
+        .convertBuffer(Buffer.from("test"), { extension: ".txt" }, { strict: true })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(DegradedConversionError);
+      expect(error.code).toBe("converter-failed");
+      expect(error.cause).toBe(failure);
+    });
+
+    it("converts clean input as usual", async () => {
+      const result = await converter.convertFile(join(TEST_FILES, "test.xlsx"), {
+        strict: true,
+      });
+      expect(result.markdown).toContain("6ff4173b-42a5-4784-9b19-f49caff4d93d");
+    });
+  });
+
+  describe("cancellation", () => {
+    it("times out without trying other converters", async () => {
+      const custom = new Mdize({ enableBuiltins: false });
+      custom.register({
+        accepts: () => true,
+        convert: async (_input: Buffer, _info: unknown, options: any) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          throwIfAborted(options.signal);
+          return { markdown: "too late" };
+        },
+      } as any);
+      const fallback = vi.fn(async () => ({ markdown: "fallback" }));
+      custom.register({ accepts: () => true, convert: fallback } as any, 5);
+
+      const error = await custom
+        .convertBuffer(Buffer.from("test"), { extension: ".txt" }, { timeoutMs: 10 })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ConversionAbortedError);
+      expect(error.message).toBe("Conversion timed out");
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it("honours a caller's signal alongside the timeout", async () => {
+      await expect(
+        converter.convertFile(join(TEST_FILES, "test.pdf"), {
+          signal: AbortSignal.abort(),
+          timeoutMs: 60_000,
+        }),
+      ).rejects.toThrow("Conversion aborted");
+    });
+
+    it("detaches from the caller's signal once the conversion settles", async () => {
+      const controller = new AbortController();
+      const options = { signal: controller.signal, timeoutMs: 60_000 };
+      const info = { extension: ".txt" };
+
+      await converter.convertBuffer(Buffer.from("test"), info, options);
+      await converter.convertStream(Readable.from([Buffer.from("test")]), info, options);
+      for await (const _chunk of converter.convertIter(Buffer.from("test"), {
+        ...options,
+        streamInfo: info,
+      })) {
+        // Drain
+      }
+      expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+    });
+  });
+
+  describe("resource limits", () => {
+    it("checks the input size before reading files and streams", async () => {
+      const limits = { maxInputBytes: 100 };
+      await expect(
+        converter.convertFile(join(TEST_FILES, "test.pdf"), { limits }),
+      ).rejects.toMatchObject({ limit: "maxInputBytes", max: 100 });
+      await expect(
+        converter.convertStream(
+          createReadStream(join(TEST_FILES, "test_rss.xml")),
+          { extension: ".xml" },
+          { limits },
+        ),
+      ).rejects.toThrow(ResourceLimitError);
+    });
+
+    it("limits the Markdown produced without trying other converters", async () => {
+      const fallback = vi.fn(async () => ({ markdown: "short" }));
+      const custom = new Mdize({ limits: { maxOutputLength: 10 } });
+      custom.register({ accepts: () => true, convert: fallback }, PRIORITY_GENERIC + 1);
+
+      const error = await custom
+        .convertBuffer(Buffer.from("well over ten characters"), {
+          extension: ".txt",
+        })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error.message).toBe(
+        "Input exceeds maxOutputLength: 24 characters of output, limit 10",
+      );
+      expect(fallback).not.toHaveBeenCalled();
+
+      // Limits given per call override the instance's defaults
+      const result = await custom.convertBuffer(
+        Buffer.from("well over ten characters"),
+        { extension: ".txt" },
+        { limits: { maxOutputLength: 100 } },
+      );
+      expect(result.markdown).toBe("well over ten characters");
+    });
+  });
+
   describe("custom converter registration", () => {
     it("allows registering custom converters", async () => {
       const custom = new Mdize({ enableBuiltins: false });
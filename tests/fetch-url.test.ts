@@ -0,0 +1,197 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  ConversionAbortedError,
+  Mdize,
+  ResourceLimitError,
+  UrlFetchError,
+} from "../src/index.js";
+import { fetchUrl } from "../src/fetch-url.js";
+
+describe("fetchUrl / Mdize.convertUrl", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case "/page":
+          res.writeHead(200, { "Content-Type": "text/html; charset=ISO-8859-1" });
+          res.end(Buffer.from("<html><head><title>Caf\xe9</title></head><body><p>Men\xfa</p></body></html>", "latin1"));
+          break;
+        case "/download":
+          res.writeHead(200, {
+            "Content-Type": "application/octet-stream",
+            "Content-Disposition": "attachment; filename*=UTF-8''data%20file.csv",
+          });
+          res.end("a,b\n1,2\n");
+          break;
+        case "/redirect":
+          res.writeHead(302, { Location: "/page" });
+          res.end();
+          break;
+        case "/loop":
+          res.writeHead(301, { Location: "/loop" });
+          res.end();
+          break;
+        case "/big":
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("x".repeat(2048));
+          break;
+        case "/slow":
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.write("partial");
+          setTimeout(() => res.end(), 1000);
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("fills StreamInfo from Content-Type including charset", async () => {
+    const { info } = await fetchUrl(`${base}/page`);
+    expect(info.mimetype).toBe("text/html");
+    expect(info.charset).toBe("iso-8859-1");
+    expect(info.url).toBe(`${base}/page`);
+  });
+
+  it("takes the filename from Content-Disposition", async () => {
+    const { info } = await fetchUrl(`${base}/download`);
+    expect(info.filename).toBe("data file.csv");
+    expect(info.extension).toBe(".csv");
+  });
+
+  it("follows redirects and reports the final URL", async () => {
+    const mdize = new Mdize();
+    const result = await mdize.convertUrl(`${base}/redirect`);
+    expect(result.title).toBe("Café");
+    expect(result.markdown).toContain("Menú");
+  });
+
+  it("caps the number of redirects", async () => {
+    await expect(
+      fetchUrl(`${base}/loop`, { maxRedirects: 2 }),
+    ).rejects.toThrow(/Too many redirects/);
+  });
+
+  it("enforces the byte limit", async () => {
+    await expect(
+      fetchUrl(`${base}/big`, { maxBytes: 1024 }),
+    ).rejects.toThrow(UrlFetchError);
+  });
+
+  it("applies the conversion's maxInputBytes to the download", async () => {
+    const limits = { maxInputBytes: 1024 };
+    await expect(
+      new Mdize().convertUrl(`${base}/big`, { limits }),
+    ).rejects.toMatchObject({ limit: "maxInputBytes", max: 1024, actual: 2048 });
+
+    // Without Content-Length the download stops once it passes the limit
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        pulled++;
+        controller.enqueue(new Uint8Array(512));
+      },
+    });
+    const mdize = new Mdize({
+      limits,
+      fetch: { fetch: async () => new Response(endless) },
+    });
+    await expect(mdize.convertUrl("https://example.com/feed")).rejects.toThrow(
+      ResourceLimitError,
+    );
+    expect(pulled).toBeLessThan(5);
+
+    // A tighter fetch limit still reports a failed download
+    await expect(
+      new Mdize().convertUrl(`${base}/big`, {
+        limits,
+        fetch: { maxBytes: 512 },
+      }),
+    ).rejects.toThrow(UrlFetchError);
+  });
+
+  it("enforces the timeout", async () => {
+    await expect(
+      fetchUrl(`${base}/slow`, { timeoutMs: 100 }),
+    ).rejects.toThrow(/Timed out/);
+  });
+
+  it("stops downloading when the caller aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const err = await fetchUrl(`${base}/slow`, { signal: controller.signal }).catch(
+      (e) => e,
+    );
+    expect(err).toBeInstanceOf(ConversionAbortedError);
+    expect(err.message).toBe("Conversion aborted");
+  });
+
+  it("applies the conversion timeout to the download", async () => {
+    const started = Date.now();
+    const err = await new Mdize()
+      .convertUrl(`${base}/slow`, { timeoutMs: 100 })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(ConversionAbortedError);
+    expect(err.message).toBe("Conversion timed out");
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("reports HTTP errors with their status", async () => {
+    const err = await fetchUrl(`${base}/missing`).catch((e) => e);
+    expect(err).toBeInstanceOf(UrlFetchError);
+    expect(err.status).toBe(404);
+  });
+
+  it("uses an injected fetch and routes URLs through convert", async () => {
+    const requested: string[] = [];
+    const mdize = new Mdize({
+      fetch: {
+        fetch: async (url) => {
+          requested.push(url);
+          return new Response("a,b\n1,2\n", {
+            headers: { "Content-Type": "text/csv" },
+          });
+        },
+      },
+    });
+    const result = await mdize.convert("https://example.com/report");
+    expect(requested).toEqual(["https://example.com/report"]);
+    expect(result.markdown).toContain("| a | b |");
+  });
+
+  it("drops custom headers when a redirect leaves the origin", async () => {
+    const sent: [string, Record<string, string> | undefined][] = [];
+    const redirects: Record<string, string> = {
+      "https://example.com/report": "/report/latest",
+      "https://example.com/report/latest": "https://cdn.example.net/report.csv",
+    };
+    const { buffer } = await fetchUrl("https://example.com/report", {
+      headers: { Authorization: "Bearer secret" },
+      fetch: async (url, init) => {
+        sent.push([url, init?.headers]);
+        return redirects[url]
+          ? new Response(null, { status: 302, headers: { Location: redirects[url] } })
+          : new Response("a,b\n1,2\n");
+      },
+    });
+
+    expect(buffer.toString()).toBe("a,b\n1,2\n");
+    expect(sent).toEqual([
+      ["https://example.com/report", { Authorization: "Bearer secret" }],
+      ["https://example.com/report/latest", { Authorization: "Bearer secret" }],
+      ["https://cdn.example.net/report.csv", undefined],
+    ]);
+  });
+});
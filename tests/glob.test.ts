@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { globToRegExp } from "../src/glob.js";
+
+describe("globToRegExp", () => {
+  it("keeps * and ? within one path segment", () => {
+    expect(globToRegExp("*.pdf").test("report.pdf")).toBe(true);
+    expect(globToRegExp("*.pdf").test("2024/report.pdf")).toBe(false);
+    expect(globToRegExp("page?.md").test("page1.md")).toBe(true);
+  });
+
+  it("matches any depth with **", () => {
+    const glob = globToRegExp("**/*.docx");
+    expect(glob.test("a.docx")).toBe(true);
+    expect(glob.test("x/y/a.docx")).toBe(true);
+    expect(glob.test("x/y/a.pdf")).toBe(false);
+  });
+
+  it("supports alternatives and character classes", () => {
+    expect(globToRegExp("*.{xlsx,csv}").test("sheet.csv")).toBe(true);
+    expect(globToRegExp("[a-c]*.txt").test("b.txt")).toBe(true);
+    expect(globToRegExp("[!a-c]*.txt").test("b.txt")).toBe(false);
+  });
+
+  it("treats other characters literally", () => {
+    expect(globToRegExp("a+b (1).txt").test("a+b (1).txt")).toBe(true);
+    expect(globToRegExp("a.txt").test("abtxt")).toBe(false);
+  });
+});
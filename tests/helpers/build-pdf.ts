@@ -0,0 +1,156 @@
+/** A line of text placed on a page (PDF coordinates, origin bottom-left) */
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  /** Raw content-stream operators drawn before the text, e.g. "0 0 10 10 re f" */
+  graphics?: string;
+  width?: number;
+  height?: number;
+}
+
+/** A bookmark pointing at a 1-based page number */
+export interface PdfOutlineEntry {
+  title: string;
+  page: number;
+  children?: PdfOutlineEntry[];
+}
+
+export interface PdfDocumentOptions {
+  /** Document info dictionary entries, e.g. { Title: "Report" } */
+  info?: Record<string, string>;
+  outline?: PdfOutlineEntry[];
+}
+
+/**
+ * Build a minimal PDF with Helvetica text, so layout-dependent behaviour
+ * can be tested without binary fixtures.
+ */
+export function buildPdf(
+  pages: PdfPage[],
+  options: PdfDocumentOptions = {},
+): Buffer {
+  const objects: string[] = [];
+  const add = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add("");
+  const pageTree = add("");
+  const font = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  const pageRefs: number[] = [];
+  for (const page of pages) {
+    const content = [
+      page.graphics ?? "",
+      ...page.texts.map(
+        (t) =>
+          `BT /F1 ${t.size ?? 10} Tf ${t.x} ${t.y} Td (${escapePdfString(t.text)}) Tj ET`,
+      ),
+    ].join("\n");
+    const stream = add(
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    );
+    pageRefs.push(
+      add(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${page.width ?? 612} ${page.height ?? 792}] ` +
+          `/Resources << /Font << /F1 ${font} 0 R >> >> /Contents ${stream} 0 R >>`,
+      ),
+    );
+  }
+
+  const addOutlineItems = (
+    entries: PdfOutlineEntry[],
+    parent: number,
+  ): { first: number; last: number; count: number } => {
+    const refs = entries.map(() => add(""));
+    let count = entries.length;
+    entries.forEach((entry, i) => {
+      let body =
+        `<< /Title (${escapePdfString(entry.title)}) /Parent ${parent} 0 R ` +
+        `/Dest [${pageRefs[entry.page - 1]} 0 R /XYZ 0 792 0]`;
+      if (i > 0) body += ` /Prev ${refs[i - 1]} 0 R`;
+      if (i < refs.length - 1) body += ` /Next ${refs[i + 1]} 0 R`;
+      if (entry.children?.length) {
+        const kids = addOutlineItems(entry.children, refs[i]);
+        body += ` /First ${kids.first} 0 R /Last ${kids.last} 0 R /Count ${kids.count}`;
+        count += kids.count;
+      }
+      objects[refs[i] - 1] = `${body} >>`;
+    });
+    return { first: refs[0], last: refs[refs.length - 1], count };
+  };
+
+  let catalogExtra = "";
+  if (options.outline?.length) {
+    const outlines = add("");
+    const items = addOutlineItems(options.outline, outlines);
+    objects[outlines - 1] =
+      `<< /Type /Outlines /First ${items.first} 0 R /Last ${items.last} 0 R /Count ${items.count} >>`;
+    catalogExtra = ` /Outlines ${outlines} 0 R`;
+  }
+
+  let trailerExtra = "";
+  if (options.info) {
+    const entries = Object.entries(options.info)
+      .map(([key, value]) => `/${key} (${escapePdfString(value)})`)
+      .join(" ");
+    trailerExtra = ` /Info ${add(`<< ${entries} >>`)} 0 R`;
+  }
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R${catalogExtra} >>`;
+  objects[pageTree - 1] =
+    `<< /Type /Pages /Kids [${pageRefs.map((r) => `${r} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R${trailerExtra} >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+/** Helvetica advance widths per 1000 units of font size; others get 556 */
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278, ",": 278, ".": 278, f: 278, i: 222, j: 222, l: 222, t: 278,
+  c: 500, k: 500, s: 500, v: 500, x: 500, y: 500, z: 500, r: 333,
+  m: 833, w: 722, M: 833, T: 611,
+};
+
+/**
+ * Place a line one text item per word, as some PDF producers emit it,
+ * with each word where Helvetica would set it.
+ */
+export function wordTexts(
+  x: number,
+  y: number,
+  line: string,
+  size = 10,
+): PdfText[] {
+  const texts: PdfText[] = [];
+  for (const word of line.split(" ")) {
+    texts.push({ x, y, text: word, size });
+    for (const char of `${word} `) {
+      x += ((HELVETICA_WIDTHS[char] ?? 556) * size) / 1000;
+    }
+  }
+  return texts;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, (c) => `\\${c}`);
+}
@@ -0,0 +1,24 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { transform } from "esbuild";
+
+/** Map the `.js` specifiers used in src/ to the `.ts` files on disk */
+export async function resolve(specifier, context, next) {
+  try {
+    return await next(specifier, context);
+  } catch (err) {
+    if (!specifier.endsWith(".js")) throw err;
+    return next(`${specifier.slice(0, -3)}.ts`, context);
+  }
+}
+
+export async function load(url, context, next) {
+  if (!url.endsWith(".ts")) return next(url, context);
+  const source = await readFile(fileURLToPath(url), "utf-8");
+  const { code } = await transform(source, {
+    loader: "ts",
+    format: "esm",
+    sourcefile: fileURLToPath(url),
+  });
+  return { format: "module", source: code, shortCircuit: true };
+}
@@ -0,0 +1,5 @@
+// Preloaded into worker threads (`--import`) so they can run the
+// TypeScript sources: tests use src/ directly instead of a build.
+import { register } from "node:module";
+
+register("./ts-hooks.mjs", import.meta.url);
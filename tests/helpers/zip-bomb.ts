@@ -0,0 +1,42 @@
+import JSZip from "jszip";
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+
+/**
+ * Add an entry of `size` zero bytes to the package `input` whose headers
+ * claim it inflates to 16 bytes, like a crafted decompression bomb.
+ */
+export async function withUnderstatedEntry(
+  input: Buffer,
+  size: number,
+): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(input);
+  zip.file("bomb.bin", Buffer.alloc(size));
+  const buf = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+
+  const name = Buffer.from("bomb.bin");
+  for (let i = 0; i < buf.length - 4; i++) {
+    const signature = buf.readUInt32LE(i);
+    // Name length and name follow at offsets 26/30 (local), 28/46 (central)
+    if (signature === LOCAL_HEADER && matches(buf, i + 30, i + 26, name)) {
+      buf.writeUInt32LE(16, i + 22);
+    } else if (
+      signature === CENTRAL_HEADER &&
+      matches(buf, i + 46, i + 28, name)
+    ) {
+      buf.writeUInt32LE(16, i + 24);
+    }
+  }
+  return buf;
+}
+
+function matches(buf: Buffer, at: number, lengthAt: number, name: Buffer) {
+  return (
+    buf.readUInt16LE(lengthAt) === name.length &&
+    buf.subarray(at, at + name.length).equals(name)
+  );
+}
@@ -0,0 +1,116 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, describe, it, expect } from "vitest";
+import {
+  Mdize,
+  MdizeError,
+  UnsupportedFormatError,
+  FileConversionError,
+  DegradedConversionError,
+  ConversionAbortedError,
+  type ConversionProgress,
+  type ConversionWarning,
+} from "../src/index.js";
+
+const TEST_FILES = join(import.meta.dirname, "test-files");
+const LOADER = join(import.meta.dirname, "helpers", "ts-loader.mjs");
+
+describe("worker threads", () => {
+  const mdize = new Mdize({
+    workers: 2,
+    workerOptions: { execArgv: ["--import", LOADER] },
+  });
+
+  afterAll(() => mdize.close());
+
+  it("converts files on workers like in-process", async () => {
+    const [pooled, local] = await Promise.all([
+      mdize.convertFile(join(TEST_FILES, "test.xlsx")),
+      new Mdize().convertFile(join(TEST_FILES, "test.xlsx")),
+    ]);
+    expect(pooled).toEqual(local);
+  });
+
+  it("leaves buffers passed by the caller intact", async () => {
+    const buf = await readFile(join(TEST_FILES, "test.docx"));
+    const result = await mdize.convertBuffer(buf, { extension: ".docx" });
+    expect(result.markdown).toContain("314b0a30-5b04-470b-b9f7-eed2c2bec74a");
+    expect(buf.length).toBeGreaterThan(0);
+  });
+
+  it("forwards warnings and progress to the callbacks", async () => {
+    const warnings: ConversionWarning[] = [];
+    const progress: ConversionProgress[] = [];
+    await mdize.convertFile(join(TEST_FILES, "test.xlsx"), {
+      onProgress: (p) => progress.push(p),
+    });
+    const result = await mdize.convertBuffer(
+      Buffer.from("hello"),
+      { extension: ".txt", charset: "x-unknown" },
+      { onWarning: (w) => warnings.push(w) },
+    );
+    expect(progress.at(-1)).toEqual({ unit: "sheet", current: 2, total: 2 });
+    expect(warnings).toEqual(result.warnings);
+    expect(warnings).toMatchObject([{ code: "charset-fallback" }]);
+  });
+
+  it("calls onImage on the calling thread", async () => {
+    const names: string[] = [];
+    const result = await mdize.convertFile(join(TEST_FILES, "test.pptx"), {
+      onImage: async (bytes, _mimetype, name) => {
+        names.push(`${name}:${bytes.length}`);
+        return `media/${name}`;
+      },
+    });
+    expect(names).toEqual(["image1.jpg:73700", "image2.jpg:148594"]);
+    expect(result.markdown).toContain("![](media/image2.jpg)");
+
+    const failing = mdize.convertFile(join(TEST_FILES, "test.pptx"), {
+      onImage: () => {
+        throw new RangeError("disk full");
+      },
+    });
+    await expect(failing).rejects.toThrow(FileConversionError);
+    const { attempts } = await failing.catch((err) => err);
+    expect(attempts[0].error).toBeInstanceOf(RangeError);
+    expect(attempts[0].error.message).toBe("disk full");
+  });
+
+  it("rebuilds errors as their own classes", async () => {
+    await expect(
+      mdize.convertBuffer(Buffer.from([0, 1, 2, 3]), { extension: ".xyz" }),
+    ).rejects.toThrow(UnsupportedFormatError);
+
+    const strict = mdize.convertBuffer(
+      Buffer.from("hello"),
+      { extension: ".txt", charset: "x-unknown" },
+      { strict: true },
+    );
+    await expect(strict).rejects.toThrow(DegradedConversionError);
+    await expect(strict).rejects.toMatchObject({ code: "charset-fallback" });
+  });
+
+  it("aborts conversions running on a worker", async () => {
+    const controller = new AbortController();
+    const converting = mdize.convertFile(join(TEST_FILES, "test.pdf"), {
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(converting).rejects.toThrow(ConversionAbortedError);
+
+    await expect(
+      mdize.convertBuffer(Buffer.from("hello"), undefined, {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toThrow(ConversionAbortedError);
+  });
+
+  it("refuses custom converters", () => {
+    expect(() =>
+      mdize.register({
+        accepts: () => true,
+        convert: async () => ({ markdown: "" }),
+      }),
+    ).toThrow(MdizeError);
+  });
+});